@@ -3,12 +3,15 @@ import { AppMode, UserProfile } from './types';
 import { Onboarding } from './components/Onboarding';
 import { WebMode } from './components/WebMode';
 import { CompanionMode } from './components/CompanionMode';
-import { Search, Sparkles, LogOut, Maximize, Minimize } from 'lucide-react';
+import { SettingsPanel } from './components/SettingsPanel';
+import { resolveLocale } from './services/locale';
+import { Search, Sparkles, LogOut, Maximize, Minimize, Settings } from 'lucide-react';
 
 export default function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.ONBOARDING);
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
   // Load user from local storage
   useEffect(() => {
@@ -27,12 +30,22 @@ export default function App() {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
+  // Keeps the document language in step with the user's interface language
+  useEffect(() => {
+    document.documentElement.lang = resolveLocale(user).uiLanguage;
+  }, [user]);
+
   const handleLoginSuccess = (profile: UserProfile) => {
     setUser(profile);
     localStorage.setItem('alexis_user', JSON.stringify(profile));
     setMode(AppMode.COMPANION); // Default to companion after sign in for wow factor
   };
 
+  const handleProfileUpdate = (profile: UserProfile) => {
+    setUser(profile);
+    localStorage.setItem('alexis_user', JSON.stringify(profile));
+  };
+
   const handleLogout = () => {
     localStorage.removeItem('alexis_user');
     setUser(null);
@@ -94,6 +107,14 @@ export default function App() {
         </div>
         
         <div className="flex items-center gap-4">
+           <button
+             onClick={() => setShowSettings(true)}
+             className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+             title="Settings"
+           >
+             <Settings className="w-5 h-5" />
+           </button>
+
            {/* Fullscreen Toggle */}
            <button 
              onClick={toggleFullscreen}
@@ -127,9 +148,13 @@ export default function App() {
 
       {/* Main Viewport */}
       <main className="flex-1 relative overflow-y-auto">
-        {mode === AppMode.WEB && <WebMode />}
+        {mode === AppMode.WEB && user && <WebMode user={user} />}
         {mode === AppMode.COMPANION && user && <CompanionMode user={user} />}
       </main>
+
+      {showSettings && user && (
+        <SettingsPanel user={user} onSave={handleProfileUpdate} onClose={() => setShowSettings(false)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
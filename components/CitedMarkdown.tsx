@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Citation, SearchResult } from '../types';
+import { insertCitationMarkers } from '../services/citations';
+
+interface CitedMarkdownProps {
+  text: string;
+  sources: SearchResult[];
+  citations?: Citation[];
+  // Prefix of the result card element ids, e.g. `${prefix}-0` for the first source
+  anchorPrefix: string;
+}
+
+const CITE_PREFIX = '#cite-';
+
+const scrollToSource = (anchorPrefix: string, index: number) => {
+  const card = document.getElementById(`${anchorPrefix}-${index}`);
+  if (!card) return;
+  card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  card.classList.add('ring-2', 'ring-indigo-500');
+  setTimeout(() => card.classList.remove('ring-2', 'ring-indigo-500'), 1500);
+};
+
+const CitationMarker: React.FC<{ number: number; source?: SearchResult; onClick: () => void }> = ({ number, source, onClick }) => {
+  const [isHovered, setIsHovered] = useState(false);
+
+  return (
+    <span className="relative inline-block" onMouseEnter={() => setIsHovered(true)} onMouseLeave={() => setIsHovered(false)}>
+      <button
+        type="button"
+        onClick={onClick}
+        className="mx-0.5 px-1.5 min-w-[1.25rem] h-5 inline-flex items-center justify-center align-super text-[10px] font-bold rounded-full bg-indigo-500/20 text-indigo-300 border border-indigo-500/30 hover:bg-indigo-500 hover:text-white transition-colors not-prose"
+      >
+        {number}
+      </button>
+
+      {/* Source preview */}
+      {isHovered && source && (
+        <span className="absolute z-50 left-1/2 -translate-x-1/2 bottom-full mb-2 w-72 p-3 rounded-xl bg-slate-900 border border-slate-700 shadow-2xl text-left not-prose animate-in fade-in zoom-in-95 duration-150">
+          <span className="block text-[10px] font-mono text-slate-500 truncate">{source.siteName}</span>
+          <span className="block text-sm font-medium text-blue-400 leading-snug mt-1 line-clamp-2">{source.title}</span>
+          {source.snippet && <span className="block text-xs text-slate-400 mt-1 line-clamp-3 font-normal">{source.snippet}</span>}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export const CitedMarkdown: React.FC<CitedMarkdownProps> = ({ text, sources, citations, anchorPrefix }) => {
+  return (
+    <ReactMarkdown
+      components={{
+        a: ({ node, href, children, ...props }) => {
+          if (href?.startsWith(CITE_PREFIX)) {
+            const number = Number(href.slice(CITE_PREFIX.length));
+            return <CitationMarker number={number} source={sources[number - 1]} onClick={() => scrollToSource(anchorPrefix, number - 1)} />;
+          }
+          return <span className="text-indigo-300 font-medium hover:underline cursor-pointer" {...props}>{children}</span>;
+        }
+      }}
+    >
+      {insertCitationMarkers(text, citations, sources)}
+    </ReactMarkdown>
+  );
+};
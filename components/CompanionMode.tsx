@@ -1,84 +1,107 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { UserProfile, SearchResult } from '../types';
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { UserProfile, SearchResult, SmartWidgetData, CompanionSession, CompanionToolCall, CompanionTurn, HoloData } from '../types';
+import { FunctionCall, LiveConnectConfig, Modality } from '@google/genai';
 import { Visualizer } from './Visualizer';
-import { HoloCard, HoloData } from './HoloCard';
-import { Mic, MicOff, Video, VideoOff, LayoutGrid, X, RotateCcw, AlertCircle, Square, ScanEye, Globe, Sparkles, ExternalLink, ArrowRight, Hand, ThumbsDown, MousePointerClick, ChevronUp, ChevronDown, Command, HelpCircle, Eye, MessageSquare } from 'lucide-react';
-import { createPcmBlob, decodeAudioData, blobToBase64, base64ToUint8Array } from '../utils/audio-utils';
-import { performWebSearch } from '../services/gemini';
+import { HoloCard } from './HoloCard';
+import { SmartWidgets } from './SmartWidgets';
+import { CompanionSessionsPanel } from './CompanionSessionsPanel';
+import { Mic, MicOff, Video, VideoOff, LayoutGrid, X, RotateCcw, AlertCircle, Square, ScanEye, Globe, Sparkles, ExternalLink, ArrowRight, Hand, ThumbsDown, MousePointerClick, ChevronUp, ChevronDown, Command, HelpCircle, Eye, MessageSquare, Camera, Send, History, ScreenShare, ScreenShareOff } from 'lucide-react';
+import { blobToBase64 } from '../utils/audio-utils';
+import { createPcmCapture, createPcmPlayer, PcmPlayer } from '../utils/audioWorklets';
+import { debugLog } from '../services/debugChannel';
+import { clearCompanionSessions, deleteCompanionSession, listCompanionSessions, saveCompanionSession } from '../services/companionSessions';
+import { buildLiveToolDeclarations, cancelLiveToolCalls, executeLiveToolCalls } from '../services/liveTools';
+import '../services/companionTools';
+import { resolveLocale } from '../services/locale';
+import { buildCompanionInstruction, buildSpeechConfig, resolvePreferences } from '../services/persona';
 import { initializeGestureRecognizer, detectGesture } from '../services/gestureService';
+import { useLiveSession } from '../hooks/useLiveSession';
 import ReactMarkdown from 'react-markdown';
 
 interface CompanionModeProps {
   user: UserProfile;
 }
 
-interface TranscriptItem {
-  id: string;
-  role: 'user' | 'model';
-  text: string;
+interface TranscriptItem extends CompanionTurn {
   isComplete: boolean;
 }
 
-const searchToolDeclaration: FunctionDeclaration = {
-  name: 'search_web',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Search the internet for real-time information, news, facts, recipes, or current events.',
-    properties: {
-      query: { type: Type.STRING, description: 'The search query string.' },
-    },
-    required: ['query'],
-  },
-};
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
 
-const hudToolDeclaration: FunctionDeclaration = {
-  name: 'render_hud_overlay',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Display a futuristic Heads-Up Display (HUD) overlay with structured analysis of the object visible in the camera.',
-    properties: {
-      title: { type: Type.STRING, description: 'Name of the object identified' },
-      category: { type: Type.STRING, description: 'Category (e.g., Electronics, Food, Nature)' },
-      confidence: { type: Type.NUMBER, description: 'Confidence score between 0 and 100' },
-      attributes: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            label: { type: Type.STRING },
-            value: { type: Type.STRING },
-            score: { type: Type.NUMBER, description: 'Optional relative score 0-100 for visual graph' }
-          }
-        }
-      },
-      summary: { type: Type.STRING, description: 'Short, dense technical summary of the object.' }
-    },
-    required: ['title', 'category', 'attributes', 'summary']
-  },
+type VideoSource = 'camera' | 'screen';
+
+// Screens carry small text, so they're sent larger and sharper than the camera, but less often
+const VIDEO_SOURCE_SETTINGS: Record<VideoSource, { intervalMs: number; maxWidth: number; quality: number }> = {
+  camera: { intervalMs: 1000, maxWidth: 240, quality: 0.4 },
+  screen: { intervalMs: 2000, maxWidth: 1280, quality: 0.7 },
 };
 
+const SCAN_FRAME_WIDTH = 1024;
+const SCAN_TIMEOUT_MS = 15000;
+const buildScanPrompt = (source: VideoSource) => source === 'screen'
+  ? `Scan this: analyze the main subject of the attached high-resolution capture of my shared screen.
+Call render_hud_overlay with your analysis right away, then describe it in one short sentence.`
+  : `Scan this: analyze the main object in the attached high-resolution camera frame.
+Call render_hud_overlay with your analysis right away, then describe it in one short sentence.`;
+
 export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
-  const [isSessionActive, setIsSessionActive] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Changing the locale reconnects the session with the new instruction
+  const locale = useMemo(() => resolveLocale(user), [user.locale]);
+
+  const preferences = useMemo(() => resolvePreferences(user), [user.preferences]);
+  const assistantName = preferences.assistantName;
+
+  const buildLiveConfig = (): LiveConnectConfig => ({
+    responseModalities: [Modality.AUDIO], 
+    speechConfig: buildSpeechConfig(preferences),
+    outputAudioTranscription: {},
+    inputAudioTranscription: {}, 
+    systemInstruction: buildCompanionInstruction(user, locale, preferences),
+    tools: [{ functionDeclarations: buildLiveToolDeclarations() }],
+  });
+
+  const { client, status } = useLiveSession({ model: LIVE_MODEL, config: buildLiveConfig });
+  const isSessionActive = status.state === 'open';
+  // Camera/microphone problems; session problems live in `status`
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const error = mediaError || (status.state === 'failed' ? status.error || 'Connection failed' : null);
   const [suggestedSites, setSuggestedSites] = useState<SearchResult[]>([]);
   const [showHelp, setShowHelp] = useState(false);
   
   // HUD State
   const [holoData, setHoloData] = useState<HoloData | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const scanTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Widget shown by render_widget or carried by a search_web result
+  const [widget, setWidget] = useState<SmartWidgetData | null>(null);
   
   // Default Mic to OFF
   const [isMicOn, setIsMicOn] = useState(false);
   const [isVideoOn, setIsVideoOn] = useState(true);
+  const [videoSource, setVideoSource] = useState<VideoSource>('camera');
   const [volume, setVolume] = useState(0);
   const [isUserSpeaking, setIsUserSpeaking] = useState(false);
   
   // Transcript & Live Text
   const [transcripts, setTranscripts] = useState<TranscriptItem[]>([]);
   const [liveInputText, setLiveInputText] = useState(''); // Realtime user speech
+  const [draft, setDraft] = useState('');
+
+  // Saved conversation: this visit to Companion mode is one session, across reconnects
+  const sessionIdRef = useRef(`companion-${Date.now()}`);
+  const sessionStartedAtRef = useRef(Date.now());
+  // Turns, tool calls and sites before these indexes belong to a deleted session and aren't saved again
+  const [sessionOffset, setSessionOffset] = useState({ turns: 0, toolCalls: 0, sites: 0 });
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [toolCalls, setToolCalls] = useState<CompanionToolCall[]>([]);
+  const [sessionSites, setSessionSites] = useState<SearchResult[]>([]);
+  const [savedSessions, setSavedSessions] = useState<CompanionSession[]>([]);
+  const [showSessions, setShowSessions] = useState(false);
+  const [attachFrame, setAttachFrame] = useState(false);
   
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
-  const [activeCommand, setActiveCommand] = useState<{ text: string; type: 'search' | 'scan' | 'think' } | null>(null);
+  const [activeCommand, setActiveCommand] = useState<{ text: string; type: 'search' | 'scan' | 'think' | 'widget' } | null>(null);
   
   // Gesture State
   const [detectedGesture, setDetectedGesture] = useState<string | null>(null);
@@ -87,6 +110,7 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
   // Refs for state access inside closures
   const isMicOnRef = useRef(isMicOn);
   const isVideoOnRef = useRef(isVideoOn);
+  const videoSourceRef = useRef(videoSource);
   const feedbackTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const commandTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const gestureCooldownRef = useRef<number>(0);
@@ -94,6 +118,7 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
   
   // Refs for audio/video elements
   const videoRef = useRef<HTMLVideoElement>(null);
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const transcriptRef = useRef<HTMLDivElement>(null);
   
@@ -105,16 +130,17 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
   
   // Logic Refs
   const animationFrameRef = useRef<number | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null); 
+  const playerRef = useRef<PcmPlayer | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Screen share; the camera stream keeps running underneath for gestures and switching back
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const lastFrameAtRef = useRef(0);
   const frameIntervalRef = useRef<number | null>(null);
   const gestureIntervalRef = useRef<number | null>(null);
   const gestureProcessingRef = useRef(false);
-  const initializedRef = useRef(false);
   const isResponseStoppedRef = useRef(false);
-  const isSocketOpenRef = useRef(false);
+  // Bumped by every startMedia/stopMedia, so a start that is still awaiting knows it was superseded
+  const mediaGenerationRef = useRef(0);
 
   // Sync refs with state
   useEffect(() => {
@@ -133,6 +159,10 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
     isVideoOnRef.current = isVideoOn;
   }, [isVideoOn]);
 
+  useEffect(() => {
+    videoSourceRef.current = videoSource;
+  }, [videoSource]);
+
   // Initialize Gesture Recognizer
   useEffect(() => {
     initializeGestureRecognizer();
@@ -162,7 +192,7 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
     }
   }, []);
 
-  const showCommandFeedback = useCallback((text: string, type: 'search' | 'scan' | 'think') => {
+  const showCommandFeedback = useCallback((text: string, type: 'search' | 'scan' | 'think' | 'widget') => {
     if (commandTimeoutRef.current) clearTimeout(commandTimeoutRef.current);
     playAudioCue();
     setActiveCommand({ text, type });
@@ -184,28 +214,51 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
 
   const stopSpeaking = () => {
     isResponseStoppedRef.current = true;
-    sourcesRef.current.forEach(source => {
-      try { source.stop(); } catch (e) {}
-    });
-    sourcesRef.current.clear();
-    if (outputAudioContextRef.current) {
-      nextStartTimeRef.current = outputAudioContextRef.current.currentTime;
-    }
+    playerRef.current?.clear();
     setFeedbackMessage("Playback Stopped");
     setTimeout(() => setFeedbackMessage(null), 2000);
   };
 
-  const triggerScan = useCallback(() => {
-     setFeedbackMessage("Analyzing Visual...");
-     // In a real app, this would send a specific message to the model to analyze the current frame
-     // For now, we simulate the 'Scan this' voice command effect
-     if (sessionRef.current && isSocketOpenRef.current) {
-        // We can't easily force the model to 'think' it heard text without sending audio,
-        // but we can prompt the user visually.
-     }
-     if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
-     feedbackTimeoutRef.current = setTimeout(() => setFeedbackMessage(null), 3000);
-  }, []);
+  const failScan = (message: string) => {
+    if (scanTimeoutRef.current) clearTimeout(scanTimeoutRef.current);
+    scanTimeoutRef.current = null;
+    setIsScanning(false);
+    setScanError(message);
+  };
+
+  // Called when render_hud_overlay arrives, whether or not the scan asked for it
+  const finishScan = () => {
+    if (scanTimeoutRef.current) clearTimeout(scanTimeoutRef.current);
+    scanTimeoutRef.current = null;
+    setIsScanning(false);
+    setScanError(null);
+  };
+
+  // Sends a sharper frame than the live stream with an explicit instruction to answer via the HUD
+  const triggerScan = async () => {
+    if (scanTimeoutRef.current) return;
+    setScanError(null);
+    if (client.getStatus().state !== 'open') return failScan(`Not connected to ${assistantName}`);
+    if (!isVideoOnRef.current) return failScan("Turn the camera on to scan");
+
+    setIsScanning(true);
+    showCommandFeedback("Analyzing Visual...", 'scan');
+    const timeout = setTimeout(() => failScan("No analysis came back. Try again."), SCAN_TIMEOUT_MS);
+    scanTimeoutRef.current = timeout;
+
+    // The frame comes from whichever source is active now, even if it changes while capturing
+    const source = videoSourceRef.current;
+    const frame = await captureFrame(SCAN_FRAME_WIDTH, 0.85);
+    // Timed out (or finished) while capturing: the error is already showing, so don't send a late scan
+    if (scanTimeoutRef.current !== timeout) return;
+    if (!frame) return failScan("The camera has no picture yet");
+    const sent = client.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: buildScanPrompt(source) }, { inlineData: { mimeType: 'image/jpeg', data: frame } }] }],
+      turnComplete: true,
+    });
+    if (!sent) return failScan(`Not connected to ${assistantName}`);
+    appendUserTurn("Scan this", true);
+  };
 
   const showGestureFeedback = (action: string) => {
       setGestureAction(action);
@@ -220,11 +273,117 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
         const newText = last.text + text;
         return [...prev.slice(0, -1), { ...last, text: newText, isComplete }];
       } else {
-        return [...prev, { id: Date.now().toString(), role, text, isComplete }];
+        return [...prev, { id: Date.now().toString(), role, text, isComplete, timestamp: Date.now() }];
       }
     });
   };
 
+  // Tells the model, without asking for a reply, what the frames it gets now show
+  const announceVideoSource = (source: VideoSource) => {
+    client.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: source === 'screen' ? "I'm sharing my screen now instead of my camera." : "I've stopped sharing my screen; you see my camera again." }] }],
+      turnComplete: false,
+    });
+  };
+
+  const stopScreenShare = (announce = true) => {
+    const stream = screenStreamRef.current;
+    if (!stream) return;
+    screenStreamRef.current = null;
+    stream.getTracks().forEach(t => t.stop());
+    if (screenVideoRef.current) screenVideoRef.current.srcObject = null;
+    setVideoSource('camera');
+    videoSourceRef.current = 'camera';
+    lastFrameAtRef.current = 0;
+    if (announce) announceVideoSource('camera');
+  };
+
+  // Same session throughout: only the frames fed into it change
+  const startScreenShare = async () => {
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({
+        video: { frameRate: { ideal: 5, max: 5 }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      });
+      if (screenVideoRef.current) {
+        screenVideoRef.current.srcObject = stream;
+        await screenVideoRef.current.play();
+      }
+      screenStreamRef.current = stream;
+      // The browser's own "Stop sharing" button ends the track
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => stopScreenShare());
+      setVideoSource('screen');
+      videoSourceRef.current = 'screen';
+      lastFrameAtRef.current = 0;
+      setIsVideoOn(true);
+      announceVideoSource('screen');
+    } catch (err: any) {
+      // A stream that never became the source would otherwise keep the browser sharing
+      if (stream && screenStreamRef.current !== stream) {
+        stream.getTracks().forEach(t => t.stop());
+        if (screenVideoRef.current) screenVideoRef.current.srcObject = null;
+      }
+      // NotAllowedError is the user closing the picker
+      if (err?.name !== 'NotAllowedError') console.error("Screen share failed", err);
+      setFeedbackMessage(err?.name === 'NotAllowedError' ? "Screen sharing cancelled" : "Screen sharing unavailable");
+      if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
+      feedbackTimeoutRef.current = setTimeout(() => setFeedbackMessage(null), 2000);
+    }
+  };
+
+  // Current frame of the active video source as base64 JPEG, at most `maxWidth` wide; null before there's a picture
+  const captureFrame = (maxWidth: number, quality: number): Promise<string | null> => {
+    const video = videoSourceRef.current === 'screen' ? screenVideoRef.current : videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx || !video.videoWidth) return Promise.resolve(null);
+
+    const ratio = video.videoWidth / video.videoHeight;
+    canvas.width = Math.min(maxWidth, video.videoWidth);
+    canvas.height = canvas.width / ratio;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return new Promise(resolve => {
+      canvas.toBlob(blob => {
+        if (!blob) return resolve(null);
+        blobToBase64(blob).then(resolve, () => resolve(null));
+      }, 'image/jpeg', quality);
+    });
+  };
+
+  // Typed turns go in as client content, like the greeting, so they show up as a normal user turn
+  const sendTypedMessage = async () => {
+    const text = draft.trim();
+    if (!text || !isSessionActive) return;
+
+    const frame = attachFrame && isVideoOn ? await captureFrame(640, 0.7) : null;
+    const sent = client.sendClientContent({
+      turns: [{
+        role: 'user',
+        parts: [{ text }, ...(frame ? [{ inlineData: { mimeType: 'image/jpeg', data: frame } }] : [])],
+      }],
+      turnComplete: true,
+    });
+    if (!sent) {
+      setFeedbackMessage("Message not sent");
+      if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
+      feedbackTimeoutRef.current = setTimeout(() => setFeedbackMessage(null), 2000);
+      return;
+    }
+
+    setDraft('');
+    appendUserTurn(text, !!frame);
+  };
+
+  const appendUserTurn = (text: string, hasFrame: boolean) => {
+    setTranscripts(prev => [
+      // Close any half-finished turn so this one isn't merged into it
+      ...prev.map(t => ({ ...t, isComplete: true })),
+      { id: Date.now().toString(), role: 'user', text, isComplete: true, timestamp: Date.now(), hasFrame },
+    ]);
+  };
+
   const startAudioAnalysis = () => {
     const dataArray = new Uint8Array(256);
     const update = () => {
@@ -285,20 +444,22 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
       }
   };
 
-  const cleanupSession = () => {
+  const stopMedia = () => {
+    mediaGenerationRef.current++;
     if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
     if (gestureIntervalRef.current) clearInterval(gestureIntervalRef.current);
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    frameIntervalRef.current = null;
+    gestureIntervalRef.current = null;
+    animationFrameRef.current = null;
     
-    isSocketOpenRef.current = false;
-    if (sessionRef.current) {
-       sessionRef.current = null;
-    }
+    playerRef.current = null;
     
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(t => t.stop());
       streamRef.current = null;
     }
+    stopScreenShare(false);
     
     if (inputAudioContextRef.current) {
       inputAudioContextRef.current.close();
@@ -309,42 +470,52 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
       outputAudioContextRef.current.close();
       outputAudioContextRef.current = null;
     }
-    
-    setIsSessionActive(false);
-    initializedRef.current = false;
   };
 
-  const connectToGemini = useCallback(async () => {
-    if (initializedRef.current) return;
-    initializedRef.current = true;
-    
-    setError(null);
-    setIsSessionActive(false);
+  // Audio graph, camera and gesture loop. They outlive socket reconnects; frames and audio
+  // are simply dropped by the client while the session isn't open.
+  const startMedia = async () => {
+    const generation = ++mediaGenerationRef.current;
+    // StrictMode remounts and leaving during the permission prompt both stop media mid-start
+    const superseded = () => generation !== mediaGenerationRef.current;
+    // Built up locally and only put in the refs once nothing else is awaited
+    let inputContext: AudioContext | null = null;
+    let outputContext: AudioContext | null = null;
+    let stream: MediaStream | null = null;
+    const release = () => {
+      stream?.getTracks().forEach(t => t.stop());
+      if (inputContext && inputContext.state !== 'closed') inputContext.close();
+      if (outputContext && outputContext.state !== 'closed') outputContext.close();
+    };
 
+    setMediaError(null);
     try {
-      const apiKey = process.env.API_KEY || '';
-      if (!apiKey) throw new Error("API Key not found.");
-      
-      const ai = new GoogleGenAI({ apiKey });
-      
       // Setup Audio Contexts
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      inputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      outputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       
       // CRITICAL: Resume output context immediately to allow autoplay of greeting
-      if (outputAudioContextRef.current.state === 'suspended') {
-          await outputAudioContextRef.current.resume();
+      if (outputContext.state === 'suspended') {
+          await outputContext.resume();
+          if (superseded()) return release();
       }
 
-      outputAnalyserRef.current = outputAudioContextRef.current.createAnalyser();
-      outputAnalyserRef.current.fftSize = 512;
-      outputAnalyserRef.current.connect(outputAudioContextRef.current.destination);
+      const outputAnalyser = outputContext.createAnalyser();
+      outputAnalyser.fftSize = 512;
+      outputAnalyser.connect(outputContext.destination);
+
+      // Model speech goes through the jitter buffer, then the analyser for the Visualizer
+      const player = await createPcmPlayer(outputContext, {
+        onUnderrun: stats => debugLog('live.audio', 'Playback underrun', stats),
+      });
+      if (superseded()) return release();
+      player.node.connect(outputAnalyser);
 
-      inputAnalyserRef.current = inputAudioContextRef.current.createAnalyser();
-      inputAnalyserRef.current.fftSize = 512;
+      const inputAnalyser = inputContext.createAnalyser();
+      inputAnalyser.fftSize = 512;
 
       // Microphone
-      const stream = await navigator.mediaDevices.getUserMedia({ 
+      stream = await navigator.mediaDevices.getUserMedia({ 
         audio: {
           echoCancellation: true,
           noiseSuppression: true,
@@ -353,10 +524,39 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
           sampleRate: 16000,
         },
         video: {
-           width: { ideal: 320 }, 
-           height: { ideal: 240 }
+           // The live stream is downscaled to 240px; Scan uses the full picture
+           width: { ideal: 1280 }, 
+           height: { ideal: 720 }
         }
       });
+      if (superseded()) return release();
+
+      const source = inputContext.createMediaStreamSource(stream);
+      
+      const highPassFilter = inputContext.createBiquadFilter();
+      highPassFilter.type = 'highpass';
+      highPassFilter.frequency.value = 150; 
+      
+      // Resampling and PCM16 encoding happen on the audio thread
+      const capture = await createPcmCapture(inputContext, blob => {
+        if (isMicOnRef.current) client.sendRealtimeInput({ media: blob });
+      });
+      if (superseded()) return release();
+      
+      source.connect(highPassFilter);
+      highPassFilter.connect(inputAnalyser);
+      highPassFilter.connect(capture);
+      
+      const silence = inputContext.createGain();
+      silence.gain.value = 0;
+      capture.connect(silence);
+      silence.connect(inputContext.destination);
+
+      inputAudioContextRef.current = inputContext;
+      outputAudioContextRef.current = outputContext;
+      inputAnalyserRef.current = inputAnalyser;
+      outputAnalyserRef.current = outputAnalyser;
+      playerRef.current = player;
       streamRef.current = stream;
       stream.getAudioTracks().forEach(track => { track.enabled = isMicOnRef.current; });
 
@@ -365,245 +565,20 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
         videoRef.current.play();
       }
 
-      const config = {
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO], 
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          },
-          outputAudioTranscription: {},
-          inputAudioTranscription: {}, 
-          systemInstruction: `You are Alexis, an AI browser companion. User: ${user.name}.
-          
-          Role & Persona:
-          - You are a high-performance technical assistant and browser co-pilot.
-          - You have deep knowledge of technical jargon.
-          
-          Interaction Guidelines:
-          - SPEAK AND LISTEN IN ENGLISH ONLY.
-          - IMPORTANT: As soon as the session starts, you MUST verbally greet the user by their name (${user.name}) and enthusiastically ask what they would like to search for or explore today. Do not wait for user input.
-          - Be conversational but concise.
-          - Use 'search_web' for facts/news.
-          - Use 'render_hud_overlay' for visual analysis commands.`,
-          tools: [{ functionDeclarations: [searchToolDeclaration, hudToolDeclaration] }],
-        },
-      };
-
-      let sessionPromise: Promise<any>;
-      sessionPromise = ai.live.connect({
-        ...config,
-        callbacks: {
-          onopen: () => {
-            console.log("Session Connected");
-            setIsSessionActive(true);
-            isSocketOpenRef.current = true;
-            startAudioAnalysis();
-
-            // Trigger the initial greeting immediately with explicit instruction for audio
-            sessionPromise.then(session => {
-              session.send({ 
-                  clientContent: { 
-                      turns: [{ 
-                          role: 'user', 
-                          parts: [{ text: `Hello Alexis. My name is ${user.name}. Please greet me loudly.` }] 
-                      }], 
-                      turnComplete: true 
-                  } 
-              });
-            });
-            
-            if (inputAudioContextRef.current && streamRef.current) {
-              const source = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-              
-              const highPassFilter = inputAudioContextRef.current.createBiquadFilter();
-              highPassFilter.type = 'highpass';
-              highPassFilter.frequency.value = 150; 
-              
-              const scriptProcessor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-              
-              scriptProcessor.onaudioprocess = (e) => {
-                if (!isMicOnRef.current || !isSocketOpenRef.current) return;
-                
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData, inputAudioContextRef.current?.sampleRate || 48000);
-                
-                sessionPromise.then(session => {
-                    if (isSocketOpenRef.current) {
-                        try {
-                           session.sendRealtimeInput({ media: pcmBlob });
-                        } catch (e) {
-                           console.error("Audio send error", e);
-                        }
-                    }
-                }).catch(err => console.error("Session not ready for audio", err));
-              };
-              
-              source.connect(highPassFilter);
-              highPassFilter.connect(inputAnalyserRef.current!);
-              highPassFilter.connect(scriptProcessor);
-              
-              const silence = inputAudioContextRef.current.createGain();
-              silence.gain.value = 0;
-              scriptProcessor.connect(silence);
-              silence.connect(inputAudioContextRef.current.destination);
-            }
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-              // Real-time Input Transcription (User Speech Stream)
-              if (msg.serverContent?.inputTranscription) {
-                const text = msg.serverContent.inputTranscription.text;
-                setLiveInputText(prev => prev + text);
-                updateTranscript('user', text, false);
-              }
-              
-              // Output Transcription (Model Speech Stream)
-              if (msg.serverContent?.outputTranscription) {
-                updateTranscript('model', msg.serverContent.outputTranscription.text, false);
-              }
-
-              if (msg.serverContent?.turnComplete) {
-                setTranscripts(prev => prev.map(t => ({ ...t, isComplete: true })));
-                // Clear live text once turn is done
-                setLiveInputText('');
-              }
-
-              // Interruption
-              if (msg.serverContent?.interrupted) {
-                isResponseStoppedRef.current = false;
-                sourcesRef.current.forEach(source => { try { source.stop(); } catch (e) {} });
-                sourcesRef.current.clear();
-                if (outputAudioContextRef.current) {
-                   nextStartTimeRef.current = outputAudioContextRef.current.currentTime;
-                }
-                setLiveInputText('');
-              }
-
-              // Audio Output
-              const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-              if (audioData && outputAudioContextRef.current && !isResponseStoppedRef.current) {
-                const ctx = outputAudioContextRef.current;
-                const audioBuffer = await decodeAudioData(base64ToUint8Array(audioData), ctx);
-                
-                const MIN_BUFFER_TIME = 0.02;
-                if (nextStartTimeRef.current < ctx.currentTime) {
-                   nextStartTimeRef.current = ctx.currentTime + MIN_BUFFER_TIME;
-                }
-                
-                const source = ctx.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(outputAnalyserRef.current || ctx.destination);
-                source.start(nextStartTimeRef.current);
-                
-                nextStartTimeRef.current += audioBuffer.duration;
-                sourcesRef.current.add(source);
-                source.onended = () => { sourcesRef.current.delete(source); };
-              }
-
-              // Tool Execution
-              if (msg.toolCall) {
-                if (sessionRef.current) {
-                  const functionResponses = [];
-                  for (const fc of msg.toolCall.functionCalls) {
-                     if (fc.name === 'search_web') {
-                       try {
-                         const query = (fc.args as any).query;
-                         showCommandFeedback(`Searching: ${query}`, 'search');
-                         
-                         const searchResult = await performWebSearch(query);
-                         setSuggestedSites(searchResult.sources);
-                         
-                         functionResponses.push({
-                           id: fc.id, 
-                           name: fc.name,
-                           response: { result: `Summary: ${searchResult.text}` }
-                         });
-                       } catch (e) {
-                         console.error("Tool execution failed", e);
-                         functionResponses.push({
-                           id: fc.id,
-                           name: fc.name,
-                           response: { result: "Error performing search." }
-                         });
-                       }
-                     } else if (fc.name === 'render_hud_overlay') {
-                       try {
-                         showCommandFeedback("Analyzing Target...", 'scan');
-                         const data = fc.args as unknown as HoloData;
-                         setHoloData(data);
-                         setSuggestedSites([]); 
-                         
-                         functionResponses.push({
-                           id: fc.id, 
-                           name: fc.name,
-                           response: { result: "HUD Rendered." }
-                         });
-                       } catch (e) {
-                         console.error("HUD execution failed", e);
-                         functionResponses.push({
-                           id: fc.id,
-                           name: fc.name,
-                           response: { result: "Error rendering HUD." }
-                         });
-                       }
-                     }
-                  }
-                  
-                  if (functionResponses.length > 0) {
-                      sessionRef.current.sendToolResponse({
-                        functionResponses: functionResponses
-                      });
-                  }
-                }
-              }
-          },
-          onclose: () => { 
-            console.log("Session Closed");
-            isSocketOpenRef.current = false;
-            setIsSessionActive(false); 
-          },
-          onerror: (err) => {
-            console.error("Gemini Error:", err);
-            if (isSocketOpenRef.current) {
-              setError("Network error. Reconnecting...");
-              cleanupSession();
-              setTimeout(() => connectToGemini(), 2000);
-            }
-          }
-        }
-      });
-      
-      sessionRef.current = await sessionPromise;
+      startAudioAnalysis();
 
       // Video Streaming & Gesture Loop
       if (canvasRef.current) {
-         const ctx = canvasRef.current.getContext('2d');
-         
-         frameIntervalRef.current = window.setInterval(() => {
-           if (videoRef.current && ctx && isVideoOnRef.current && isSocketOpenRef.current) {
-              const MAX_WIDTH = 240;
-              const ratio = videoRef.current.videoWidth / videoRef.current.videoHeight;
-              canvasRef.current!.width = MAX_WIDTH;
-              canvasRef.current!.height = MAX_WIDTH / ratio;
-              
-              ctx.drawImage(videoRef.current, 0, 0, canvasRef.current!.width, canvasRef.current!.height);
-              
-              canvasRef.current!.toBlob(async (blob) => {
-                if (blob) {
-                  const base64 = await blobToBase64(blob);
-                  sessionPromise.then(session => {
-                      if (isSocketOpenRef.current) {
-                        try {
-                           session.sendRealtimeInput({ media: { mimeType: 'image/jpeg', data: base64 } });
-                        } catch (e) {
-                           console.error("Video send error", e);
-                        }
-                      }
-                  }).catch(e => console.error("Session not ready for video", e));
-                }
-              }, 'image/jpeg', 0.4);
+         // Ticks faster than any source's rate so switching sources takes effect right away
+         frameIntervalRef.current = window.setInterval(async () => {
+           const settings = VIDEO_SOURCE_SETTINGS[videoSourceRef.current];
+           if (Date.now() - lastFrameAtRef.current < settings.intervalMs) return;
+           if (isVideoOnRef.current && client.getStatus().state === 'open') {
+              lastFrameAtRef.current = Date.now();
+              const frame = await captureFrame(settings.maxWidth, settings.quality);
+              if (frame) client.sendRealtimeInput({ media: { mimeType: 'image/jpeg', data: frame } });
            }
-         }, 1000);
+         }, 250);
          
          gestureIntervalRef.current = window.setInterval(async () => {
              if (videoRef.current && isVideoOnRef.current && !gestureProcessingRef.current) {
@@ -612,7 +587,7 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
                      const gesture = detectGesture(videoRef.current);
                      if (gesture) {
                          setDetectedGesture(gesture);
-                         handleGesture(gesture);
+                         handleGestureRef.current(gesture);
                      } else {
                          setDetectedGesture(null);
                      }
@@ -625,16 +600,193 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
       }
 
     } catch (err: any) {
-      setError(err.message || "Failed to initialize");
-      setIsSessionActive(false);
-      initializedRef.current = false;
+      // A newer start owns the refs now; only clean up what this one acquired
+      if (superseded()) return release();
+      console.error("Media setup failed", err);
+      // Anything already in the refs is stopMedia's to close
+      if (streamRef.current !== stream) release();
+      stopMedia();
+      setMediaError(err.message || "Failed to initialize");
+    }
+  };
+
+  const playAudioChunk = (audioData: string) => {
+    if (!isResponseStoppedRef.current) playerRef.current?.enqueue(audioData);
+  };
+
+  const recordToolCall = (fc: FunctionCall, summary: string, error?: string) => {
+    setToolCalls(prev => [...prev, {
+      id: fc.id || `${fc.name}-${Date.now()}`,
+      name: fc.name || 'unknown',
+      args: fc.args || {},
+      timestamp: Date.now(),
+      summary,
+      ...(error && { error }),
+    }]);
+  };
+
+  // Tools run in parallel; each one reports back to the model, even when it failed or timed out
+  const executeToolCalls = async (calls: FunctionCall[]) => {
+    const outcomes = await executeLiveToolCalls(calls, {
+      locale,
+      showFeedback: showCommandFeedback,
+      showSites: sites => {
+        setSuggestedSites(sites);
+        setSessionSites(prev => [...prev, ...sites.filter(site => !prev.some(p => p.url === site.url))]);
+      },
+      showWidget: rendered => {
+        setWidget(rendered);
+        setHoloData(null);
+      },
+      showHud: data => {
+        setHoloData(data);
+        finishScan();
+        setWidget(null);
+        setSuggestedSites([]);
+      },
+    });
+
+    const functionResponses = outcomes.flatMap(outcome => {
+      // Cancelled calls aren't saved or answered: the model already moved on
+      if (!outcome.response) return [];
+      recordToolCall(outcome.call, outcome.summary, outcome.error);
+      return [outcome.response];
+    });
+    if (functionResponses.length > 0) {
+        client.sendToolResponse({ functionResponses });
     }
-  }, [user.name, showCommandFeedback]);
+  };
+
+  // Keep the gesture loop (started once) pointed at the latest handler
+  const handleGestureRef = useRef(handleGesture);
+  handleGestureRef.current = handleGesture;
 
   useEffect(() => {
-    connectToGemini();
-    return () => cleanupSession();
-  }, [connectToGemini]);
+    startMedia();
+    return () => stopMedia();
+  }, []);
+
+  useEffect(() => {
+    const subscriptions = [
+      client.on('inputTranscription', text => {
+        setLiveInputText(prev => prev + text);
+        updateTranscript('user', text, false);
+      }),
+      client.on('outputTranscription', text => updateTranscript('model', text, false)),
+      client.on('turnComplete', () => {
+        playerRef.current?.endOfStream();
+        // "Stop Speaking" only silences the turn it was pressed in
+        isResponseStoppedRef.current = false;
+        setTranscripts(prev => prev.map(t => ({ ...t, isComplete: true })));
+        // Clear live text once turn is done
+        setLiveInputText('');
+      }),
+      client.on('interrupted', () => {
+        isResponseStoppedRef.current = false;
+        playerRef.current?.clear();
+        setLiveInputText('');
+      }),
+      client.on('audio', playAudioChunk),
+      client.on('toolCall', executeToolCalls),
+      client.on('toolCallCancellation', cancelLiveToolCalls),
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }, [client, locale, showCommandFeedback]);
+
+  // A new name, locale, voice or persona needs a new config, so start a fresh session
+  useEffect(() => {
+    const unsubscribe = client.on('status', next => {
+      // Trigger the initial greeting with explicit instruction for audio; a resumed session already had it
+      if (next.state === 'open' && !next.resumed) {
+        client.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: `Hello ${assistantName}. My name is ${user.name}. Please greet me loudly.` }] }],
+          turnComplete: true,
+        });
+      }
+    });
+    client.connect();
+    return () => {
+      unsubscribe();
+      client.disconnect();
+    };
+  }, [client, user.name, locale, preferences]);
+
+  // The conversation as it would be saved now; null until something has happened
+  const currentSession = useMemo<CompanionSession | null>(() => {
+    const turns = transcripts.slice(sessionOffset.turns);
+    const calls = toolCalls.slice(sessionOffset.toolCalls);
+    if (turns.length === 0 && calls.length === 0) return null;
+    const opener = turns.find(t => t.role === 'user' && t.text.trim())?.text.trim();
+    return {
+      id: sessionIdRef.current,
+      userId: user.email,
+      title: opener ? (opener.length > 80 ? `${opener.slice(0, 77)}...` : opener) : `Conversation with ${assistantName}`,
+      assistantName,
+      startedAt: sessionStartedAtRef.current,
+      updatedAt: Date.now(),
+      turns: turns.map(({ isComplete, ...turn }) => turn),
+      toolCalls: calls,
+      suggestedSites: sessionSites.slice(sessionOffset.sites),
+    };
+  }, [transcripts, toolCalls, sessionSites, sessionOffset, user.email, assistantName]);
+  const currentSessionRef = useRef(currentSession);
+  currentSessionRef.current = currentSession;
+
+  useEffect(() => {
+    listCompanionSessions(user.email).then(setSavedSessions);
+  }, [user.email]);
+
+  // Debounced while turns stream in; leaving Companion mode saves right away
+  useEffect(() => {
+    if (!currentSession) return;
+    const timer = setTimeout(() => {
+      saveTimerRef.current = null;
+      saveCompanionSession(currentSession);
+      setSavedSessions(prev => [currentSession, ...prev.filter(s => s.id !== currentSession.id)]);
+    }, 1000);
+    saveTimerRef.current = timer;
+    return () => clearTimeout(timer);
+  }, [currentSession]);
+
+  useEffect(() => () => {
+    if (scanTimeoutRef.current) clearTimeout(scanTimeoutRef.current);
+  }, []);
+
+  useEffect(() => () => {
+    if (currentSessionRef.current) saveCompanionSession(currentSessionRef.current);
+  }, []);
+
+  // Deleting the conversation in progress mustn't be undone by its next save: drop the pending
+  // save and carry on under a new id with only what comes next
+  const detachCurrentSession = () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    sessionIdRef.current = `companion-${Date.now()}`;
+    sessionStartedAtRef.current = Date.now();
+    currentSessionRef.current = null;
+    setSessionOffset({ turns: transcripts.length, toolCalls: toolCalls.length, sites: sessionSites.length });
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (id === sessionIdRef.current) detachCurrentSession();
+    await deleteCompanionSession(id);
+    setSavedSessions(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleClearSessions = async () => {
+    if (!window.confirm("Delete all saved conversations?")) return;
+    detachCurrentSession();
+    await clearCompanionSessions(user.email);
+    setSavedSessions([]);
+  };
+
+  const retryConnection = () => {
+    if (mediaError) {
+      stopMedia();
+      startMedia();
+    }
+    client.connect();
+  };
 
   useEffect(() => {
     if (transcriptRef.current) transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight;
@@ -667,17 +819,19 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
         {/* Top Bar */}
         <div className="flex justify-between items-center p-6 bg-gradient-to-b from-slate-950/80 to-transparent relative z-50">
           <div className="flex items-center gap-3">
-            <div className={`w-2.5 h-2.5 rounded-full ${isSessionActive ? 'bg-emerald-500 animate-pulse' : error ? 'bg-red-500' : 'bg-yellow-500 animate-pulse'}`}></div>
+            <div className={`w-2.5 h-2.5 rounded-full ${error ? 'bg-red-500' : isSessionActive ? 'bg-emerald-500 animate-pulse' : 'bg-yellow-500 animate-pulse'}`}></div>
             <span className="text-sm font-medium text-slate-400 uppercase tracking-widest text-[10px]">
-              {error ? error : isSessionActive ? 'Alexis Connected' : 'Connecting...'}
+              {error ? error : isSessionActive ? `${assistantName} Connected` : status.state === 'reconnecting' ? `Reconnecting (attempt ${status.attempt})...` : 'Connecting...'}
             </span>
           </div>
           
+          <div className="flex gap-4">
           <div className={`flex gap-4 transition-opacity ${!isSessionActive ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
              <button 
                onClick={triggerScan}
-               className={`p-3 rounded-full transition-all duration-300 ${holoData ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.3)]' : 'bg-slate-800 text-white hover:bg-slate-700'}`}
-               title="Scan Object (Say 'Scan this')"
+               disabled={isScanning}
+               className={`p-3 rounded-full transition-all duration-300 ${isScanning ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/50 animate-pulse' : holoData ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.3)]' : 'bg-slate-800 text-white hover:bg-slate-700'}`}
+               title={isScanning ? "Scanning..." : "Scan Object (Say 'Scan this')"}
              >
                <ScanEye className="w-5 h-5"/>
              </button>
@@ -701,11 +855,19 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
              <button 
                onClick={() => setIsVideoOn(!isVideoOn)}
                className={`p-3 rounded-full transition-all duration-300 ${isVideoOn ? 'bg-slate-800 text-white hover:bg-slate-700' : 'bg-red-500/10 text-red-500 border border-red-500/20'}`}
-               title={isVideoOn ? "Turn Camera Off" : "Turn Camera On"}
+               title={isVideoOn ? (videoSource === 'screen' ? "Pause Screen Feed" : "Turn Camera Off") : (videoSource === 'screen' ? "Resume Screen Feed" : "Turn Camera On")}
              >
                {isVideoOn ? <Video className="w-5 h-5"/> : <VideoOff className="w-5 h-5"/>}
              </button>
 
+             <button 
+               onClick={() => videoSource === 'screen' ? stopScreenShare() : startScreenShare()}
+               className={`p-3 rounded-full transition-all duration-300 ${videoSource === 'screen' ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/50' : 'bg-slate-800 text-white hover:bg-slate-700'}`}
+               title={videoSource === 'screen' ? "Stop Sharing (back to camera)" : "Share Screen, Window or Tab"}
+             >
+               {videoSource === 'screen' ? <ScreenShareOff className="w-5 h-5"/> : <ScreenShare className="w-5 h-5"/>}
+             </button>
+
              <button 
                onClick={() => setShowHelp(true)}
                className="p-3 rounded-full bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700 border border-slate-700 transition-colors"
@@ -713,9 +875,29 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
              >
                <HelpCircle className="w-5 h-5"/>
              </button>
+          </div>
+
+             {/* Available offline too, so past conversations stay readable */}
+             <button 
+               onClick={() => setShowSessions(true)}
+               className="p-3 rounded-full bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700 border border-slate-700 transition-colors"
+               title="Saved conversations"
+             >
+               <History className="w-5 h-5"/>
+             </button>
           </div>
         </div>
 
+        {showSessions && (
+          <CompanionSessionsPanel
+            sessions={currentSession ? [currentSession, ...savedSessions.filter(s => s.id !== currentSession.id)] : savedSessions}
+            currentId={sessionIdRef.current}
+            onDelete={handleDeleteSession}
+            onClearAll={handleClearSessions}
+            onClose={() => setShowSessions(false)}
+          />
+        )}
+
         {/* HELP OVERLAY */}
         {showHelp && (
             <div className="absolute inset-0 z-[100] bg-slate-950/80 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={() => setShowHelp(false)}>
@@ -758,6 +940,14 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
                                   <code className="block mt-2 text-xs bg-slate-950 px-2 py-1 rounded text-emerald-400 font-mono">"What is this?" or "Scan this"</code>
                                </div>
                             </div>
+                            <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 flex gap-4 items-start">
+                               <div className="p-2 bg-cyan-500/20 rounded-lg text-cyan-400 mt-1"><ScreenShare className="w-5 h-5"/></div>
+                               <div>
+                                  <h4 className="font-semibold text-slate-200">Screen Sharing</h4>
+                                  <p className="text-sm text-slate-400 mt-1">Share a screen, window or tab instead of the camera to get help with what's open.</p>
+                                  <code className="block mt-2 text-xs bg-slate-950 px-2 py-1 rounded text-emerald-400 font-mono">"Explain this error message"</code>
+                               </div>
+                            </div>
                          </div>
                       </div>
 
@@ -811,6 +1001,11 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
                       <ScanEye className="w-6 h-6 text-white" />
                    </div>
                 )}
+                {activeCommand.type === 'widget' && (
+                   <div className="p-2 bg-white/20 rounded-full animate-pulse">
+                      <LayoutGrid className="w-6 h-6 text-white" />
+                   </div>
+                )}
                 <div className="flex flex-col min-w-0">
                   <span className="text-[10px] font-bold uppercase tracking-widest text-indigo-100 flex items-center gap-1">
                     <Command className="w-3 h-3" /> Voice Command
@@ -824,7 +1019,7 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
         )}
 
         {/* Feedback Toast (Mic toggle etc) */}
-        {feedbackMessage && !activeCommand && (
+        {feedbackMessage && !activeCommand && !scanError && (
           <div className="absolute top-24 left-1/2 transform -translate-x-1/2 z-50 pointer-events-none">
              <div className="flex items-center gap-3 px-6 py-3 bg-slate-800/90 backdrop-blur-xl border border-slate-700 rounded-full shadow-2xl animate-in fade-in slide-in-from-top-4 duration-300">
                 {isMicOn ? (
@@ -841,6 +1036,22 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
           </div>
         )}
         
+        {/* Scan Error Toast */}
+        {scanError && !activeCommand && (
+          <div className="absolute top-24 left-1/2 transform -translate-x-1/2 z-50">
+             <div className="flex items-center gap-3 pl-4 pr-2 py-2 bg-slate-800/90 backdrop-blur-xl border border-red-500/30 rounded-full shadow-2xl animate-in fade-in slide-in-from-top-4 duration-300">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <span className="font-semibold text-white tracking-wide text-sm">{scanError}</span>
+                <button onClick={triggerScan} className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/30 text-xs font-bold uppercase tracking-wider">
+                  <RotateCcw className="w-3 h-3" /> Retry
+                </button>
+                <button onClick={() => setScanError(null)} className="p-1.5 rounded-full text-slate-400 hover:text-white" title="Dismiss">
+                  <X className="w-4 h-4" />
+                </button>
+             </div>
+          </div>
+        )}
+
         {/* Gesture Action Toast */}
         {gestureAction && (
           <div className="absolute bottom-40 left-1/2 transform -translate-x-1/2 z-50 pointer-events-none">
@@ -860,7 +1071,7 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
               <h3 className="text-xl font-semibold text-white mb-2">Connection Issue</h3>
               <p className="text-slate-400 max-w-xs mb-6 text-sm">{error}</p>
               <button 
-                onClick={() => { cleanupSession(); connectToGemini(); }}
+                onClick={retryConnection}
                 className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-medium transition-colors"
               >
                 <RotateCcw className="w-4 h-4" /> Retry Connection
@@ -870,6 +1081,17 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
             <div className="relative flex flex-col items-center">
               {holoData ? (
                  <HoloCard data={holoData} onClose={() => setHoloData(null)} />
+              ) : widget ? (
+                 <div className="relative w-[min(720px,90vw)] max-h-[55vh] overflow-y-auto px-1 animate-in fade-in zoom-in-95 duration-300">
+                   <button
+                     onClick={() => setWidget(null)}
+                     className="sticky top-8 float-right z-20 p-1.5 rounded-full bg-slate-900/80 border border-slate-700 text-slate-400 hover:text-white"
+                     title="Close widget"
+                   >
+                     <X className="w-4 h-4" />
+                   </button>
+                   <SmartWidgets data={widget} />
+                 </div>
               ) : (
                  <div className="relative flex flex-col items-center">
                    
@@ -898,16 +1120,17 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
 
           {!isMicOn && isSessionActive && !error && (
             <div className="absolute mt-52 text-slate-500 text-sm font-light animate-pulse">
-              Microphone muted. Tap the mic icon to speak.
+              Microphone muted. Tap the mic icon to speak, or type below.
             </div>
           )}
           
           <div className={`absolute bottom-8 right-8 w-48 h-36 bg-slate-900 rounded-2xl overflow-hidden border border-slate-700 shadow-2xl transition-all duration-500 ${isVideoOn && !error ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10 pointer-events-none'}`}>
-             <video ref={videoRef} className="w-full h-full object-cover mirror-mode" muted playsInline />
-             <div className="absolute top-2 left-2 bg-black/40 backdrop-blur px-2 py-0.5 rounded text-[10px] font-mono text-white/70">YOU</div>
+             <video ref={videoRef} className={`w-full h-full object-cover mirror-mode ${videoSource === 'screen' ? 'hidden' : ''}`} muted playsInline />
+             <video ref={screenVideoRef} className={`w-full h-full object-contain bg-black ${videoSource === 'screen' ? '' : 'hidden'}`} muted playsInline />
+             <div className="absolute top-2 left-2 bg-black/40 backdrop-blur px-2 py-0.5 rounded text-[10px] font-mono text-white/70">{videoSource === 'screen' ? 'SCREEN' : 'YOU'}</div>
              
              {/* Gesture Indicator Overlay */}
-             {isVideoOn && detectedGesture && (
+             {isVideoOn && detectedGesture && videoSource === 'camera' && (
                 <div className="absolute bottom-2 right-2 flex items-center gap-1.5 px-2 py-1 bg-indigo-600/80 backdrop-blur rounded text-white animate-in zoom-in">
                     {getGestureIcon(detectedGesture)}
                     <span className="text-[9px] font-bold uppercase">{detectedGesture.replace('_', ' ')}</span>
@@ -917,6 +1140,7 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
         </div>
 
         {!holoData && (
+          <>
           <div className="flex-1 max-h-[250px] w-full max-w-2xl mx-auto px-6 mb-4 overflow-y-auto mask-gradient relative z-10" ref={transcriptRef}>
              <div className="space-y-4 flex flex-col justify-end min-h-full pb-4">
                {transcripts.map((t, idx) => (
@@ -926,6 +1150,11 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
                        ? 'bg-slate-800 text-slate-200 rounded-tr-sm border border-slate-700 opacity-60' 
                        : 'bg-indigo-600/20 text-indigo-100 rounded-tl-sm border border-indigo-500/30 backdrop-blur-sm'
                      }`}>
+                       {t.hasFrame && (
+                         <div className="flex items-center gap-1 mb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                           <Camera className="w-3 h-3" /> Camera frame
+                         </div>
+                       )}
                        <ReactMarkdown>{t.text}</ReactMarkdown>
                      </div>
                   </div>
@@ -937,6 +1166,41 @@ export const CompanionMode: React.FC<CompanionModeProps> = ({ user }) => {
                )}
              </div>
           </div>
+
+          {/* Typed Composer */}
+          <form
+            onSubmit={e => { e.preventDefault(); sendTypedMessage(); }}
+            className="w-full max-w-2xl mx-auto px-6 mb-6 relative z-10"
+          >
+            <div className={`flex items-center gap-2 p-1.5 pl-4 bg-slate-900/80 backdrop-blur-xl border border-slate-700 rounded-2xl focus-within:border-indigo-500/50 transition-opacity ${isSessionActive ? 'opacity-100' : 'opacity-50'}`}>
+              <MessageSquare className="w-4 h-4 text-slate-500 flex-shrink-0" />
+              <input
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                disabled={!isSessionActive}
+                placeholder={attachFrame && isVideoOn ? (videoSource === 'screen' ? "Ask about your screen..." : "Ask about what the camera sees...") : `Type to ${assistantName}...`}
+                className="flex-1 min-w-0 bg-transparent text-sm text-slate-200 placeholder-slate-500 focus:outline-none py-2"
+              />
+              <button
+                type="button"
+                onClick={() => setAttachFrame(!attachFrame)}
+                disabled={!isVideoOn}
+                className={`p-2 rounded-xl transition-colors disabled:opacity-30 ${attachFrame && isVideoOn ? 'bg-cyan-500/20 text-cyan-400' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                title={isVideoOn ? (attachFrame ? "Don't attach the current frame" : `Attach the current ${videoSource === 'screen' ? 'screen' : 'camera'} frame`) : "Turn the camera on to attach a frame"}
+              >
+                <Camera className="w-4 h-4" />
+              </button>
+              <button
+                type="submit"
+                disabled={!isSessionActive || !draft.trim()}
+                className="p-2 rounded-xl bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 transition-colors"
+                title="Send"
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            </div>
+          </form>
+          </>
         )}
 
         {suggestedSites.length > 0 && !holoData && (
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { CompanionSession } from '../types';
+import { companionSessionToJson, companionSessionToMarkdown, downloadText, slugify } from '../services/exporters';
+import { formatRelativeTime } from './HistoryPanel';
+import { ArrowLeft, Camera, ExternalLink, FileJson, FileText, History, MessageSquare, Search, Trash2, Wrench, X } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+
+interface CompanionSessionsPanelProps {
+  sessions: CompanionSession[];
+  // The conversation in progress, marked in the list
+  currentId: string;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+  onClose: () => void;
+}
+
+const exportSession = (session: CompanionSession, format: 'md' | 'json') => {
+  const name = `alexis-${slugify(session.title)}`;
+  if (format === 'md') downloadText(`${name}.md`, companionSessionToMarkdown(session), 'text/markdown');
+  else downloadText(`${name}.json`, companionSessionToJson(session), 'application/json');
+};
+
+const SessionTranscript: React.FC<{ session: CompanionSession }> = ({ session }) => {
+  // Tool calls sit between the turns they happened in
+  const events = useMemo(() => [
+    ...session.turns.map(turn => ({ kind: 'turn' as const, timestamp: turn.timestamp, turn })),
+    ...session.toolCalls.map(call => ({ kind: 'tool' as const, timestamp: call.timestamp, call })),
+  ].sort((a, b) => a.timestamp - b.timestamp), [session]);
+
+  return (
+    <div className="space-y-3">
+      {events.map(event => event.kind === 'turn' ? (
+        <div key={`turn-${event.turn.id}`} className={`flex ${event.turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+          <div className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed ${
+            event.turn.role === 'user'
+            ? 'bg-slate-800 text-slate-200 rounded-tr-sm border border-slate-700'
+            : 'bg-indigo-600/20 text-indigo-100 rounded-tl-sm border border-indigo-500/30'
+          }`}>
+            {event.turn.hasFrame && (
+              <div className="flex items-center gap-1 mb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                <Camera className="w-3 h-3" /> Camera frame
+              </div>
+            )}
+            <ReactMarkdown>{event.turn.text}</ReactMarkdown>
+          </div>
+        </div>
+      ) : (
+        <div key={`tool-${event.call.id}`} className={`flex items-center justify-center gap-1.5 text-xs ${event.call.error ? 'text-red-400' : 'text-slate-500'}`}>
+          <Wrench className="w-3 h-3" />
+          <span className="truncate">{event.call.summary}{event.call.error && ` — ${event.call.error}`}</span>
+        </div>
+      ))}
+
+      {session.suggestedSites.length > 0 && (
+        <div className="pt-4 mt-4 border-t border-slate-800">
+          <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-2">Suggested sites</div>
+          <div className="space-y-1">
+            {session.suggestedSites.map(site => (
+              <a key={site.url} href={site.url} target="_blank" rel="noreferrer" className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-slate-300 hover:bg-slate-800 hover:text-white">
+                <ExternalLink className="w-3 h-3 flex-shrink-0 text-slate-500" />
+                <span className="truncate">{site.title}</span>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const CompanionSessionsPanel: React.FC<CompanionSessionsPanelProps> = ({ sessions, currentId, onDelete, onClearAll, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const opened = sessions.find(s => s.id === openId) || null;
+
+  const filtered = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return sessions;
+    return sessions.filter(session =>
+      session.title.toLowerCase().includes(needle) ||
+      session.turns.some(turn => turn.text.toLowerCase().includes(needle))
+    );
+  }, [sessions, filter]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-slate-950/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-slate-900 border-l border-slate-700 shadow-2xl flex flex-col animate-in slide-in-from-right-8 duration-300" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between gap-2 px-6 py-5 border-b border-slate-800">
+          {opened ? (
+            <button onClick={() => setOpenId(null)} className="flex items-center gap-2 min-w-0 text-white hover:text-indigo-300">
+              <ArrowLeft className="w-5 h-5 flex-shrink-0" />
+              <h3 className="font-bold text-lg truncate">{opened.title}</h3>
+            </button>
+          ) : (
+            <div className="flex items-center gap-2 text-white">
+              <History className="w-5 h-5 text-indigo-400" />
+              <h3 className="font-bold text-lg">Conversations</h3>
+            </div>
+          )}
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {opened && (
+              <>
+                <button onClick={() => exportSession(opened, 'md')} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white" title="Download Markdown">
+                  <FileText className="w-5 h-5" />
+                </button>
+                <button onClick={() => exportSession(opened, 'json')} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white" title="Download JSON">
+                  <FileJson className="w-5 h-5" />
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {opened ? (
+          <div className="flex-1 overflow-y-auto p-6">
+            <SessionTranscript session={opened} />
+          </div>
+        ) : (
+          <>
+            {/* Filter */}
+            <div className="px-6 py-4 border-b border-slate-800">
+              <div className="flex items-center bg-slate-800 rounded-xl border border-slate-700 focus-within:border-indigo-500">
+                <Search className="w-4 h-4 ml-3 text-slate-500" />
+                <input
+                  type="text"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Search conversations..."
+                  className="w-full bg-transparent px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none"
+                />
+              </div>
+            </div>
+
+            {/* Sessions */}
+            <div className="flex-1 overflow-y-auto p-3 space-y-1">
+              {filtered.length === 0 && (
+                <div className="text-center text-slate-500 text-sm mt-12">
+                  {sessions.length === 0 ? 'No conversations yet.' : 'No matching conversations.'}
+                </div>
+              )}
+              {filtered.map(session => (
+                <div key={session.id} className="group flex items-start gap-3 p-3 rounded-xl hover:bg-slate-800 transition-colors cursor-pointer" onClick={() => setOpenId(session.id)}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-slate-200 truncate">{session.title}</div>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-slate-500">
+                      {session.id === currentId ? <span className="text-emerald-400">Now</span> : <span>{formatRelativeTime(session.updatedAt)}</span>}
+                      <span className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> {session.turns.length}</span>
+                      {session.toolCalls.length > 0 && (
+                        <span className="flex items-center gap-1"><Wrench className="w-3 h-3" /> {session.toolCalls.length}</span>
+                      )}
+                    </div>
+                  </div>
+                  {session.id !== currentId && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                      className="p-1.5 rounded-lg text-slate-600 opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-red-500/10 transition-all"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Footer */}
+            {sessions.length > 0 && (
+              <div className="px-6 py-4 border-t border-slate-800">
+                <button
+                  onClick={onClearAll}
+                  className="w-full py-2 flex items-center justify-center gap-2 text-sm font-medium text-red-400 hover:bg-red-500/10 rounded-xl border border-red-500/20 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" /> Clear all conversations
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { ComparisonData } from '../types';
+import { hasComparisonItem } from '../services/comparison';
+import { ArrowUp, ArrowDown, ArrowUpDown, Pin, PinOff, EyeOff, Eye, X, Plus, Highlighter, Loader2 } from 'lucide-react';
+
+interface ComparisonTableProps {
+  title?: string;
+  data: ComparisonData;
+  // Both optional: without them the table is view-only
+  onAddItem?: (item: string) => Promise<boolean>;
+  onRemoveItem?: (itemIndex: number) => void;
+}
+
+interface SortState {
+  // -1 sorts by feature name, otherwise by an item's values
+  column: number;
+  direction: 'asc' | 'desc';
+}
+
+const MISSING_VALUE = '—';
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Numeric-aware ("4700 mAh" > "3349 mAh"), with missing values always last
+const compareValues = (a: string | undefined, b: string | undefined) => {
+  // A row can be shorter than the header while a removed column is still on its way out
+  a = a ?? MISSING_VALUE;
+  b = b ?? MISSING_VALUE;
+  if (a === MISSING_VALUE || b === MISSING_VALUE) return a === b ? 0 : a === MISSING_VALUE ? 1 : -1;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+export const ComparisonTable: React.FC<ComparisonTableProps> = ({ title, data, onAddItem, onRemoveItem }) => {
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [highlightDiffs, setHighlightDiffs] = useState(false);
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [hidden, setHidden] = useState<string[]>([]);
+  const [newItem, setNewItem] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const items = useMemo(() => data.headers.slice(1), [data.headers]);
+
+  // Pinned items first, then the rest in their original order; columns are tracked by name
+  const columns = useMemo(() => {
+    const indexed = items.map((name, index) => ({ name, index })).filter(c => !hidden.includes(c.name));
+    return [...indexed.filter(c => pinned.includes(c.name)), ...indexed.filter(c => !pinned.includes(c.name))];
+  }, [items, pinned, hidden]);
+
+  const rows = useMemo(() => {
+    if (!sort) return data.rows;
+    const sorted = [...data.rows].sort((a, b) => sort.column === -1
+      ? a.feature.localeCompare(b.feature)
+      : compareValues(a.values[sort.column], b.values[sort.column]));
+    return sort.direction === 'asc' ? sorted : sorted.reverse();
+  }, [data.rows, sort]);
+
+  // A row differs when the visible items don't all share the same value
+  const differs = (values: string[]) => new Set(columns.map(c => normalize(values[c.index]))).size > 1;
+
+  const cycleSort = (column: number) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const toggle = (list: string[], name: string) => list.includes(name) ? list.filter(n => n !== name) : [...list, name];
+
+  const handleRemove = (name: string, index: number) => {
+    setPinned(prev => prev.filter(n => n !== name));
+    // Columns right of the removed one shift left, so the sorted index has to follow
+    if (sort?.column === index) setSort(null);
+    else if (sort && sort.column > index) setSort({ ...sort, column: sort.column - 1 });
+    onRemoveItem?.(index);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const item = newItem.trim();
+    if (!item || isAdding || !onAddItem) return;
+    if (hasComparisonItem(data, item)) {
+      setAddError(`${item} is already in the table`);
+      return;
+    }
+
+    setIsAdding(true);
+    setAddError(null);
+    const added = await onAddItem(item);
+    setIsAdding(false);
+    if (added) {
+      setNewItem('');
+    } else {
+      setAddError(`Couldn't find details for ${item}`);
+    }
+  };
+
+  const renderSortIcon = (column: number) => {
+    if (sort?.column !== column) return <ArrowUpDown className="w-3 h-3 opacity-40" />;
+    return sort.direction === 'asc' ? <ArrowUp className="w-3 h-3 text-indigo-400" /> : <ArrowDown className="w-3 h-3 text-indigo-400" />;
+  };
+
+  return (
+    <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-2xl overflow-hidden shadow-2xl">
+        <div className="bg-slate-900/50 px-6 py-4 border-b border-slate-700 flex flex-wrap items-center gap-3">
+          <h3 className="font-bold text-lg text-indigo-300">{title || 'Comparison'}</h3>
+          <button
+            onClick={() => setHighlightDiffs(on => !on)}
+            className={`ml-auto flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors ${
+              highlightDiffs ? 'bg-amber-500/15 border-amber-500/40 text-amber-300' : 'border-slate-700 text-slate-400 hover:text-white'
+            }`}
+          >
+            <Highlighter className="w-3.5 h-3.5" /> Highlight differences
+          </button>
+        </div>
+
+        {hidden.length > 0 && (
+          <div className="px-6 py-2 border-b border-slate-700/50 flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            Hidden:
+            {hidden.map(name => (
+              <button key={name} onClick={() => setHidden(prev => toggle(prev, name))} className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-slate-700 text-slate-300 hover:border-indigo-500">
+                <Eye className="w-3 h-3" /> {name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr>
+                <th className="p-4 text-sm font-semibold uppercase tracking-wider text-slate-400 border-b border-slate-700 bg-slate-800/30">
+                  <button onClick={() => cycleSort(-1)} className="flex items-center gap-1.5 uppercase hover:text-white">
+                    {data.headers[0] || 'Feature'} {renderSortIcon(-1)}
+                  </button>
+                </th>
+                {columns.map(({ name, index }) => (
+                  <th key={name} className={`p-4 text-sm font-semibold uppercase tracking-wider border-b border-slate-700 ${pinned.includes(name) ? 'bg-indigo-500/10 text-indigo-200' : 'bg-slate-800/10 text-slate-400'}`}>
+                    <div className="flex items-center gap-1.5 group">
+                      <button onClick={() => cycleSort(index)} className="flex items-center gap-1.5 uppercase hover:text-white">
+                        {name} {renderSortIcon(index)}
+                      </button>
+                      <span className="ml-auto flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity normal-case">
+                        <button onClick={() => setPinned(prev => toggle(prev, name))} className="p-1 rounded hover:bg-slate-700 hover:text-white" title={pinned.includes(name) ? 'Unpin' : 'Pin to front'}>
+                          {pinned.includes(name) ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                        </button>
+                        <button onClick={() => setHidden(prev => toggle(prev, name))} className="p-1 rounded hover:bg-slate-700 hover:text-white" title="Hide">
+                          <EyeOff className="w-3.5 h-3.5" />
+                        </button>
+                        {onRemoveItem && items.length > 2 && (
+                          <button onClick={() => handleRemove(name, index)} className="p-1 rounded hover:bg-red-500/20 hover:text-red-400" title="Remove from comparison">
+                            <X className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {rows.map(row => {
+                const isDifferent = highlightDiffs && differs(row.values);
+                return (
+                  <tr key={`${row.feature}-${data.rows.indexOf(row)}`} className={`transition-colors ${isDifferent ? 'bg-amber-500/5 hover:bg-amber-500/10' : 'hover:bg-slate-700/20'}`}>
+                    <td className={`p-4 font-medium bg-slate-800/20 ${isDifferent ? 'text-amber-200 border-l-2 border-amber-400' : 'text-indigo-200'}`}>{row.feature}</td>
+                    {columns.map(({ name, index }) => (
+                      <td key={name} className={`p-4 ${pinned.includes(name) ? 'bg-indigo-500/5' : ''} ${row.values[index] === MISSING_VALUE ? 'text-slate-600' : 'text-slate-300'}`}>
+                        {row.values[index]}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {onAddItem && (
+          <form onSubmit={handleAdd} className="px-6 py-3 border-t border-slate-700/50 flex items-center gap-3">
+            <input
+              type="text"
+              value={newItem}
+              onChange={(e) => { setNewItem(e.target.value); setAddError(null); }}
+              placeholder="Add another item to compare..."
+              disabled={isAdding}
+              className="flex-1 bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500 disabled:opacity-60"
+            />
+            <button
+              type="submit"
+              disabled={!newItem.trim() || isAdding}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-sm font-medium text-white disabled:opacity-40 transition-colors"
+            >
+              {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />} Add
+            </button>
+            {addError && <span className="text-xs text-red-400">{addError}</span>}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
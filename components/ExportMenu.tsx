@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface ExportAction {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  section: string;
+  // Resolves with a short status message for the user, if any
+  run: () => Promise<string | void> | string | void;
+}
+
+interface ExportMenuProps {
+  actions: ExportAction[];
+  trigger: React.ReactNode;
+  title: string;
+  onStatus: (message: string) => void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ actions, trigger, title, onStatus }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [isOpen]);
+
+  const runAction = async (action: ExportAction) => {
+    setIsOpen(false);
+    try {
+      const message = await action.run();
+      if (message) onStatus(message);
+    } catch (e) {
+      console.error(`Export "${action.id}" failed`, e);
+      onStatus('Export failed');
+    }
+  };
+
+  const sections = Array.from(new Set(actions.map(a => a.section)));
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button onClick={() => setIsOpen(open => !open)} className="p-2 hover:bg-slate-700 rounded text-slate-400" title={title}>
+        {trigger}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-56 py-1.5 rounded-xl bg-slate-900 border border-slate-700 shadow-2xl animate-in fade-in zoom-in-95 duration-150">
+          {sections.map((section, idx) => (
+            <div key={section} className={idx > 0 ? 'border-t border-slate-800 mt-1.5 pt-1.5' : ''}>
+              <div className="px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-slate-500">{section}</div>
+              {actions.filter(a => a.section === section).map(action => (
+                <button
+                  key={action.id}
+                  onClick={() => runAction(action)}
+                  className="w-full flex items-center gap-2.5 px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white text-left"
+                >
+                  <span className="text-slate-500">{action.icon}</span>
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GraphData, GraphNode } from '../types';
+import { applyExpansions, collapseExpansion, GraphExpansion, mergeSubgraph } from '../services/graphExplorer';
+import { KnowledgeGraph } from './KnowledgeGraph';
+import { ChevronRight, Minimize2, Plus, Search, X } from 'lucide-react';
+
+interface GraphExplorerProps {
+  title?: string;
+  data: GraphData;
+  // Fetches the subgraph around a node; without it clicking a node goes straight to onSearch
+  onExpandNode?: (label: string, graph: GraphData) => Promise<GraphData | null>;
+  // Opens the node as a full search
+  onSearch?: (label: string) => void;
+}
+
+export const GraphExplorer: React.FC<GraphExplorerProps> = ({ title, data, onExpandNode, onSearch }) => {
+  // In the order they were made, so breadcrumbs follow the path the user took
+  const [expansions, setExpansions] = useState<GraphExpansion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Read after a fetch to tell whether the answer was replaced while it ran
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  // A new answer starts a fresh exploration
+  useEffect(() => {
+    setExpansions([]);
+    setSelectedId(null);
+    setLoadingId(null);
+    setNotice(null);
+  }, [data]);
+
+  const graph = useMemo(() => applyExpansions(data, expansions), [data, expansions]);
+  const expandedIds = useMemo(() => new Set(expansions.map(e => e.nodeId)), [expansions]);
+  const root = data.nodes.find(n => n.type === 'main') || data.nodes[0];
+  const selected = graph.nodes.find(n => n.id === selectedId) || null;
+
+  const expand = async (node: GraphNode) => {
+    if (!onExpandNode || loadingId) return;
+    setLoadingId(node.id);
+    setNotice(null);
+    const subgraph = await onExpandNode(node.label, graph);
+    // A new answer reset the exploration; its node ids may reuse this one's
+    if (dataRef.current !== data) return;
+    setLoadingId(null);
+
+    const expansion = subgraph && mergeSubgraph(graph, node, subgraph);
+    if (!expansion || (expansion.nodes.length === 0 && expansion.links.length === 0)) {
+      setNotice(`Nothing more to show for ${node.label}`);
+      return;
+    }
+    // The node may have been collapsed away while its subgraph was loading
+    setExpansions(prev => {
+      const isShown = applyExpansions(data, prev).nodes.some(n => n.id === node.id);
+      return !isShown || prev.some(e => e.nodeId === node.id) ? prev : [...prev, expansion];
+    });
+  };
+
+  const collapse = (nodeId: string) => {
+    setExpansions(prev => collapseExpansion(prev, nodeId));
+    setNotice(null);
+  };
+
+  const handleNodeClick = (node: GraphNode) => {
+    if (!onExpandNode) {
+      onSearch?.(node.label);
+      return;
+    }
+    setSelectedId(node.id);
+    if (node.id !== root?.id && !expandedIds.has(node.id)) expand(node);
+  };
+
+  // Going back to a breadcrumb drops every step taken after it
+  const goBack = (index: number) => {
+    setExpansions(prev => prev.slice(0, index));
+    setSelectedId(index === 0 ? root?.id ?? null : expansions[index - 1].nodeId);
+    setNotice(null);
+  };
+
+  const toolbar = onExpandNode && (
+    <div className="flex flex-wrap items-center gap-2 mb-3 text-xs relative z-10">
+      <nav className="flex flex-wrap items-center gap-1 text-slate-400" aria-label="Exploration path">
+        {[root?.label || 'Start', ...expansions.map(e => e.label)].map((label, index, crumbs) => (
+          <React.Fragment key={`${label}-${index}`}>
+            {index > 0 && <ChevronRight className="w-3 h-3 text-slate-600" />}
+            <button
+              onClick={() => goBack(index)}
+              disabled={index === crumbs.length - 1}
+              className="px-2 py-0.5 rounded-full hover:bg-slate-800 hover:text-white disabled:text-indigo-300 disabled:bg-indigo-500/10 disabled:hover:bg-indigo-500/10"
+            >
+              {label}
+            </button>
+          </React.Fragment>
+        ))}
+      </nav>
+
+      {selected && (
+        <div className="ml-auto flex items-center gap-1 pl-3 border-l border-slate-700">
+          <span className="text-slate-300 font-medium mr-1">{selected.label}</span>
+          {selected.id !== root?.id && (expandedIds.has(selected.id) ? (
+            <button onClick={() => collapse(selected.id)} className="flex items-center gap-1 px-2 py-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Hide this node's subgraph">
+              <Minimize2 className="w-3.5 h-3.5" /> Collapse
+            </button>
+          ) : (
+            <button onClick={() => expand(selected)} disabled={!!loadingId} className="flex items-center gap-1 px-2 py-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40" title="Show related concepts">
+              <Plus className="w-3.5 h-3.5" /> Expand
+            </button>
+          ))}
+          {onSearch && (
+            <button onClick={() => onSearch(selected.label)} className="flex items-center gap-1 px-2 py-1 rounded-lg text-indigo-300 hover:text-white hover:bg-indigo-500/20" title="Open as a full search">
+              <Search className="w-3.5 h-3.5" /> Search
+            </button>
+          )}
+          <button onClick={() => setSelectedId(null)} className="p-1 rounded-lg text-slate-500 hover:text-white hover:bg-slate-800" title="Clear selection">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {notice && <span className="w-full text-slate-500">{notice}</span>}
+    </div>
+  );
+
+  return (
+    <KnowledgeGraph
+      title={title}
+      nodes={graph.nodes}
+      links={graph.links}
+      onNodeClick={handleNodeClick}
+      selectedId={selectedId}
+      expandedIds={expandedIds}
+      loadingId={loadingId}
+      toolbar={toolbar}
+    />
+  );
+};
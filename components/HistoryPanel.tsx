@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { SearchHistoryEntry } from '../types';
+import { History, Search, Trash2, X, MessageSquare } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: SearchHistoryEntry[];
+  onOpen: (entry: SearchHistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+  onClose: () => void;
+}
+
+export const formatRelativeTime = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.round(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onOpen, onDelete, onClearAll, onClose }) => {
+  const [filter, setFilter] = useState('');
+
+  const filtered = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return entries;
+    return entries.filter(entry =>
+      entry.query.toLowerCase().includes(needle) ||
+      entry.thread.some(message => message.role === 'user' && message.text.toLowerCase().includes(needle))
+    );
+  }, [entries, filter]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-slate-950/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-slate-900 border-l border-slate-700 shadow-2xl flex flex-col animate-in slide-in-from-right-8 duration-300" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-5 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-white">
+            <History className="w-5 h-5 text-indigo-400" />
+            <h3 className="font-bold text-lg">Search History</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Filter */}
+        <div className="px-6 py-4 border-b border-slate-800">
+          <div className="flex items-center bg-slate-800 rounded-xl border border-slate-700 focus-within:border-indigo-500">
+            <Search className="w-4 h-4 ml-3 text-slate-500" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Search history..."
+              className="w-full bg-transparent px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none"
+            />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {filtered.length === 0 && (
+            <div className="text-center text-slate-500 text-sm mt-12">
+              {entries.length === 0 ? 'No searches yet.' : 'No matching searches.'}
+            </div>
+          )}
+          {filtered.map(entry => {
+            const followUps = entry.thread.filter(m => m.role === 'user').length - 1;
+            return (
+              <div key={entry.id} className="group flex items-start gap-3 p-3 rounded-xl hover:bg-slate-800 transition-colors cursor-pointer" onClick={() => onOpen(entry)}>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-slate-200 truncate">{entry.query}</div>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-slate-500">
+                    <span>{formatRelativeTime(entry.timestamp)}</span>
+                    <span>· {entry.sources.length} sources</span>
+                    {followUps > 0 && (
+                      <span className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> {followUps}</span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
+                  className="p-1.5 rounded-lg text-slate-600 opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-red-500/10 transition-all"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        {entries.length > 0 && (
+          <div className="px-6 py-4 border-t border-slate-800">
+            <button
+              onClick={onClearAll}
+              className="w-full py-2 flex items-center justify-center gap-2 text-sm font-medium text-red-400 hover:bg-red-500/10 rounded-xl border border-red-500/20 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" /> Clear all history
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
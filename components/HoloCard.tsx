@@ -1,13 +1,6 @@
 import React from 'react';
 import { Scan, Activity, Zap, Info } from 'lucide-react';
-
-export interface HoloData {
-  title: string;
-  category: string;
-  confidence: number;
-  attributes: { label: string; value: string; score?: number }[]; // score 0-100 for progress bars
-  summary: string;
-}
+import { HoloData } from '../types';
 
 interface HoloCardProps {
   data: HoloData;
@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GraphLink, GraphNode } from '../types';
+import { computeGraphLevels, GraphPoint, layoutGraph } from '../services/graphLayout';
+import { Network, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+
+interface KnowledgeGraphProps {
+  title?: string;
+  nodes: GraphNode[];
+  links: GraphLink[];
+  onNodeClick?: (node: GraphNode) => void;
+  selectedId?: string | null;
+  // Nodes whose subgraph is shown, and the one currently being fetched
+  expandedIds?: ReadonlySet<string>;
+  loadingId?: string | null;
+  // Rendered between the header and the canvas, e.g. breadcrumbs
+  toolbar?: React.ReactNode;
+}
+
+interface Transform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+type Interaction =
+  | { mode: 'pan'; start: GraphPoint; origin: Transform }
+  | { mode: 'node'; id: string; start: GraphPoint; moved: boolean };
+
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 480;
+const FIT_PADDING = 60;
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 3;
+// Pointer travel (in view units) before a press on a node counts as a drag
+const DRAG_THRESHOLD = 4;
+const MAX_LABEL_LENGTH = 22;
+
+const NODE_RADIUS = [30, 20, 13];
+const radiusFor = (level: number) => NODE_RADIUS[Math.min(level, NODE_RADIUS.length - 1)];
+
+const clampZoom = (k: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+
+const truncate = (label: string) => label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+
+const fitTransform = (positions: Map<string, GraphPoint>): Transform => {
+  const points = Array.from(positions.values());
+  if (points.length === 0) return { x: VIEW_WIDTH / 2, y: VIEW_HEIGHT / 2, k: 1 };
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const width = Math.max(...xs) - Math.min(...xs) + FIT_PADDING * 2;
+  const height = Math.max(...ys) - Math.min(...ys) + FIT_PADDING * 2;
+  const k = clampZoom(Math.min(VIEW_WIDTH / width, VIEW_HEIGHT / height, 1.4));
+  const cx = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const cy = (Math.max(...ys) + Math.min(...ys)) / 2;
+  return { x: VIEW_WIDTH / 2 - cx * k, y: VIEW_HEIGHT / 2 - cy * k, k };
+};
+
+export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ title, nodes, links, onNodeClick, selectedId, expandedIds, loadingId, toolbar }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const interactionRef = useRef<Interaction | null>(null);
+  // Where each node was last drawn, so nodes that survive a graph change stay put
+  const renderedRef = useRef<Map<string, { label: string; point: GraphPoint }>>(new Map());
+
+  const levels = useMemo(() => computeGraphLevels(nodes, links), [nodes, links]);
+  const layout = useMemo(() => {
+    const fixed = new Map<string, GraphPoint>();
+    nodes.forEach(n => {
+      const previous = renderedRef.current.get(n.id);
+      if (previous && previous.label === n.label) fixed.set(n.id, previous.point);
+    });
+    return layoutGraph(nodes, links, { fixed });
+  }, [nodes, links]);
+  // Nodes the user has dragged, on top of the computed layout
+  const [dragged, setDragged] = useState<Map<string, GraphPoint>>(new Map());
+  const [transform, setTransform] = useState<Transform>(() => fitTransform(layout));
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDragged(new Map());
+    setTransform(fitTransform(layout));
+  }, [layout]);
+
+  const positionOf = (id: string) => dragged.get(id) || layout.get(id) || { x: 0, y: 0 };
+
+  useEffect(() => {
+    renderedRef.current = new Map(nodes.map(n => [n.id, { label: n.label, point: positionOf(n.id) }]));
+  }, [layout, dragged]);
+
+  // Client coordinates -> SVG view coordinates
+  const toViewPoint = (clientX: number, clientY: number): GraphPoint => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: clientX, y: clientY };
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    const { x, y } = point.matrixTransform(matrix.inverse());
+    return { x, y };
+  };
+
+  const zoomAround = (center: GraphPoint, factor: number) => {
+    setTransform(t => {
+      const k = clampZoom(t.k * factor);
+      return { k, x: center.x - ((center.x - t.x) * k) / t.k, y: center.y - ((center.y - t.y) * k) / t.k };
+    });
+  };
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAround(toViewPoint(e.clientX, e.clientY), Math.exp(-e.deltaY * 0.0015));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handleBackgroundDown = (e: React.PointerEvent) => {
+    svgRef.current?.setPointerCapture(e.pointerId);
+    interactionRef.current = { mode: 'pan', start: toViewPoint(e.clientX, e.clientY), origin: transform };
+  };
+
+  const handleNodeDown = (e: React.PointerEvent, id: string) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    interactionRef.current = { mode: 'node', id, start: toViewPoint(e.clientX, e.clientY), moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+    const point = toViewPoint(e.clientX, e.clientY);
+
+    if (interaction.mode === 'pan') {
+      const { origin, start } = interaction;
+      setTransform({ ...origin, x: origin.x + point.x - start.x, y: origin.y + point.y - start.y });
+      return;
+    }
+
+    if (!interaction.moved && Math.hypot(point.x - interaction.start.x, point.y - interaction.start.y) < DRAG_THRESHOLD) return;
+    interaction.moved = true;
+    const graphPoint = { x: (point.x - transform.x) / transform.k, y: (point.y - transform.y) / transform.k };
+    setDragged(prev => new Map(prev).set(interaction.id, graphPoint));
+  };
+
+  const handlePointerUp = () => {
+    const interaction = interactionRef.current;
+    interactionRef.current = null;
+    if (interaction?.mode === 'node' && !interaction.moved) {
+      const node = nodes.find(n => n.id === interaction.id);
+      if (node) onNodeClick?.(node);
+    }
+  };
+
+  // Hovering a node highlights it and its direct neighbours
+  const focus = useMemo(() => {
+    if (!hoveredId) return null;
+    const ids = new Set([hoveredId]);
+    links.forEach(l => {
+      if (l.source === hoveredId) ids.add(l.target);
+      if (l.target === hoveredId) ids.add(l.source);
+    });
+    return ids;
+  }, [hoveredId, links]);
+
+  const isDimmed = (id: string) => focus !== null && !focus.has(id);
+  // Keep large graphs legible: deep labels and link labels appear when zoomed in or focused
+  const showDeepLabels = transform.k >= 0.9 || nodes.length <= 15;
+  const showLinkLabels = transform.k >= 1.3 || nodes.length <= 10;
+
+  return (
+    <div className="w-full my-8 animate-in fade-in zoom-in duration-700">
+      <div className="bg-slate-900/40 border border-slate-700/50 rounded-2xl p-6 relative overflow-hidden">
+        <div className="flex items-center gap-2 mb-4 relative z-10">
+          <Network className="w-5 h-5 text-indigo-400" />
+          <h3 className="font-bold text-lg text-indigo-200">{title || 'Knowledge Graph'}</h3>
+          <span className="ml-auto text-xs text-slate-500 hidden sm:block">Scroll to zoom · drag to move · click a node to explore</span>
+        </div>
+
+        {toolbar}
+
+        <div className="relative w-full h-[480px] rounded-xl bg-slate-950/40 overflow-hidden">
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+            className="w-full h-full touch-none select-none cursor-grab active:cursor-grabbing"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <defs>
+              <linearGradient id="graph-main-node" x1="0" y1="0" x2="1" y2="1">
+                <stop offset="0%" stopColor="#6366f1" />
+                <stop offset="100%" stopColor="#9333ea" />
+              </linearGradient>
+              <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="rgba(129,140,248,0.6)" />
+              </marker>
+            </defs>
+
+            <rect width={VIEW_WIDTH} height={VIEW_HEIGHT} fill="transparent" onPointerDown={handleBackgroundDown} />
+
+            <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
+              {/* Links */}
+              {links.map((link, i) => {
+                const a = positionOf(link.source);
+                const b = positionOf(link.target);
+                const dist = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+                // Stop the line at the target's edge so the arrow stays visible
+                const inset = radiusFor(levels.get(link.target) ?? 1) + 2;
+                const end = { x: b.x - ((b.x - a.x) / dist) * inset, y: b.y - ((b.y - a.y) / dist) * inset };
+                const highlighted = focus !== null && (link.source === hoveredId || link.target === hoveredId);
+                return (
+                  <g key={`${link.source}-${link.target}-${i}`} opacity={focus && !highlighted ? 0.15 : 1}>
+                    <line
+                      x1={a.x} y1={a.y} x2={end.x} y2={end.y}
+                      stroke={highlighted ? '#818cf8' : 'rgba(99,102,241,0.35)'}
+                      strokeWidth={highlighted ? 2 : 1.5}
+                      markerEnd="url(#graph-arrow)"
+                    />
+                    {link.label && (showLinkLabels || highlighted) && (
+                      <text
+                        x={(a.x + b.x) / 2} y={(a.y + b.y) / 2}
+                        textAnchor="middle" dominantBaseline="central"
+                        className="fill-slate-400 text-[10px] pointer-events-none"
+                        stroke="#0f172a" strokeWidth={3} paintOrder="stroke"
+                      >
+                        {link.label}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+
+              {/* Nodes */}
+              {nodes.map(node => {
+                const { x, y } = positionOf(node.id);
+                const level = levels.get(node.id) ?? 1;
+                const r = radiusFor(level);
+                const showLabel = level <= 1 || showDeepLabels || focus?.has(node.id) || selectedId === node.id;
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${x},${y})`}
+                    opacity={isDimmed(node.id) ? 0.25 : 1}
+                    className="cursor-pointer transition-opacity"
+                    onPointerDown={(e) => handleNodeDown(e, node.id)}
+                    onPointerEnter={() => setHoveredId(node.id)}
+                    onPointerLeave={() => setHoveredId(null)}
+                  >
+                    <title>{node.label}</title>
+                    {loadingId === node.id && (
+                      <circle r={r + 7} fill="none" stroke="#818cf8" strokeWidth={2} strokeDasharray="6 6" className="animate-spin origin-center [transform-box:fill-box]" />
+                    )}
+                    {expandedIds?.has(node.id) && level > 0 && (
+                      <circle r={r + 4} fill="none" stroke="rgba(129,140,248,0.5)" strokeWidth={1.5} />
+                    )}
+                    <circle
+                      r={hoveredId === node.id ? r + 3 : r}
+                      fill={level === 0 ? 'url(#graph-main-node)' : level === 1 ? '#1e293b' : '#0f172a'}
+                      stroke={selectedId === node.id ? '#fbbf24' : level === 0 ? 'rgba(165,180,252,0.6)' : level === 1 ? '#818cf8' : '#475569'}
+                      strokeWidth={hoveredId === node.id || selectedId === node.id ? 3 : 1.5}
+                    />
+                    {showLabel && (
+                      <text
+                        y={level === 0 ? 0 : r + 12}
+                        textAnchor="middle"
+                        dominantBaseline={level === 0 ? 'central' : 'auto'}
+                        className={`pointer-events-none ${level === 0 ? 'fill-white text-[11px] font-bold' : level === 1 ? 'fill-slate-200 text-[11px] font-medium' : 'fill-slate-400 text-[10px]'}`}
+                        stroke={level === 0 ? 'none' : '#0f172a'} strokeWidth={3} paintOrder="stroke"
+                      >
+                        {truncate(node.label)}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+
+          {/* Zoom controls */}
+          <div className="absolute bottom-3 right-3 flex flex-col gap-1 bg-slate-900/80 border border-slate-700 rounded-lg p-1 backdrop-blur">
+            <button onClick={() => zoomAround({ x: VIEW_WIDTH / 2, y: VIEW_HEIGHT / 2 }, 1.25)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Zoom in">
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button onClick={() => zoomAround({ x: VIEW_WIDTH / 2, y: VIEW_HEIGHT / 2 }, 0.8)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Zoom out">
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <button onClick={() => { setDragged(new Map()); setTransform(fitTransform(layout)); }} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Reset view">
+              <Maximize2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
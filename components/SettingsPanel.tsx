@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { CommunicationStyle, LocaleSettings, UserPreferences, UserProfile } from '../types';
+import { LANGUAGES, REGIONS, LocaleOption, resolveLocale } from '../services/locale';
+import { COMMUNICATION_STYLES, PERSONA_NOTES_MAX_LENGTH, VOICES, resolvePreferences } from '../services/persona';
+import { Settings, X, Languages, Bot } from 'lucide-react';
+
+interface SettingsPanelProps {
+  user: UserProfile;
+  onSave: (profile: UserProfile) => void;
+  onClose: () => void;
+}
+
+const SettingSelect: React.FC<{ label: string; hint: string; value: string; options: LocaleOption[]; onChange: (value: string) => void }> = ({ label, hint, value, options, onChange }) => (
+  <label className="block space-y-1.5">
+    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-slate-800 border border-slate-700 text-sm text-white rounded-xl px-3 py-2.5 focus:outline-none focus:border-indigo-500"
+    >
+      {options.map(option => (
+        <option key={option.code} value={option.code}>{option.label}</option>
+      ))}
+    </select>
+    <span className="block text-xs text-slate-500">{hint}</span>
+  </label>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ user, onSave, onClose }) => {
+  const [locale, setLocale] = useState<LocaleSettings>(() => resolveLocale(user));
+
+  const [preferences, setPreferences] = useState<UserPreferences>(() => resolvePreferences(user));
+
+  const updateLocale = (patch: Partial<LocaleSettings>) => setLocale(prev => ({ ...prev, ...patch }));
+  const updatePreferences = (patch: Partial<UserPreferences>) => setPreferences(prev => ({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    onSave({ ...user, locale, preferences: { ...preferences, assistantName: preferences.assistantName.trim() || resolvePreferences().assistantName } });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-slate-950/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-slate-900 border-l border-slate-700 shadow-2xl flex flex-col animate-in slide-in-from-right-8 duration-300" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-5 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-white">
+            <Settings className="w-5 h-5 text-indigo-400" />
+            <h3 className="font-bold text-lg">Settings</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          {/* Language & Region */}
+          <section className="space-y-5">
+            <div className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+              <Languages className="w-4 h-4 text-indigo-400" /> Language & Region
+            </div>
+            <SettingSelect
+              label="Interface language"
+              hint="The language you type and speak in. Used for voice search."
+              value={locale.uiLanguage}
+              options={LANGUAGES}
+              onChange={(uiLanguage) => updateLocale({ uiLanguage })}
+            />
+            <SettingSelect
+              label="Result region"
+              hint="Search results and sources are localised to this region."
+              value={locale.region}
+              options={REGIONS}
+              onChange={(region) => updateLocale({ region })}
+            />
+            <SettingSelect
+              label="Answer language"
+              hint="AI Overviews and Companion replies are given in this language."
+              value={locale.answerLanguage}
+              options={LANGUAGES}
+              onChange={(answerLanguage) => updateLocale({ answerLanguage })}
+            />
+          </section>
+
+          {/* Companion Voice & Persona */}
+          <section className="space-y-5">
+            <div className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+              <Bot className="w-4 h-4 text-indigo-400" /> Companion Voice & Persona
+            </div>
+            <label className="block space-y-1.5">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Assistant name</span>
+              <input
+                type="text"
+                value={preferences.assistantName}
+                onChange={(e) => updatePreferences({ assistantName: e.target.value })}
+                maxLength={40}
+                className="w-full bg-slate-800 border border-slate-700 text-sm text-white rounded-xl px-3 py-2.5 focus:outline-none focus:border-indigo-500"
+              />
+              <span className="block text-xs text-slate-500">What the Companion calls itself.</span>
+            </label>
+            <SettingSelect
+              label="Voice"
+              hint="The prebuilt voice the Companion speaks with."
+              value={preferences.voiceName}
+              options={VOICES}
+              onChange={(voiceName) => updatePreferences({ voiceName })}
+            />
+            <SettingSelect
+              label="Communication style"
+              hint="How long and how formal spoken answers are."
+              value={preferences.communicationStyle}
+              options={COMMUNICATION_STYLES}
+              onChange={(communicationStyle) => updatePreferences({ communicationStyle: communicationStyle as CommunicationStyle })}
+            />
+            <label className="block space-y-1.5">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Persona notes</span>
+              <textarea
+                value={preferences.personaNotes}
+                onChange={(e) => updatePreferences({ personaNotes: e.target.value })}
+                maxLength={PERSONA_NOTES_MAX_LENGTH}
+                rows={4}
+                placeholder="e.g. I'm a backend developer; skip the basics and mention trade-offs."
+                className="w-full bg-slate-800 border border-slate-700 text-sm text-white rounded-xl px-3 py-2.5 placeholder-slate-600 focus:outline-none focus:border-indigo-500 resize-none"
+              />
+              <span className="block text-xs text-slate-500">Anything else the Companion should know about how to talk to you. Changes restart an active Companion session.</span>
+            </label>
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-slate-800 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-2.5 text-sm font-medium text-slate-300 hover:bg-slate-800 rounded-xl border border-slate-700 transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="flex-1 py-2.5 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-500 rounded-xl transition-colors">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
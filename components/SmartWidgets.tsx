@@ -1,190 +1,533 @@
-import React from 'react';
-import { SmartWidgetData } from '../types';
-import { Check, X, TrendingUp, TrendingDown, Minus, Calendar, GitCommit, Network } from 'lucide-react';
+import React, { useId, useState } from 'react';
+import { BuiltinWidgetType, ChartData, CodeData, GraphData, MapLocation, RecipeData, SmartWidgetData, StatItem, TableData, TimelineEvent, WeatherData } from '../types';
+import { GraphExplorer } from './GraphExplorer';
+import { ComparisonTable } from './ComparisonTable';
+import { removeComparisonItem } from '../services/comparison';
+import { getWidgetPlugin, getWidgetRenderer, registerFallbackRenderer, WidgetRenderProps } from '../services/widgetRegistry';
+import { BuiltinWidgetPayloads } from '../services/builtinWidgets';
+import { Check, X, TrendingUp, TrendingDown, Minus, Calendar, GitCommit, BarChart3, MapPin, ExternalLink, ChefHat, Users, Clock, Flame, Sun, Cloud, CloudRain, CloudSnow, CloudLightning, CloudFog, Droplets, Wind, Code2, Copy, Table2 } from 'lucide-react';
 
 interface SmartWidgetsProps {
   data: SmartWidgetData;
   onNodeClick?: (label: string) => void;
+  // Editing hooks; widgets stay read-only without them
+  onWidgetChange?: (widget: SmartWidgetData) => void;
+  onAddComparisonItem?: (item: string) => Promise<boolean>;
+  onExpandGraphNode?: (label: string, graph: GraphData) => Promise<GraphData | null>;
 }
 
-export const SmartWidgets: React.FC<SmartWidgetsProps> = ({ data, onNodeClick }) => {
-  
-  // --- Comparison Widget ---
-  if (data.type === 'comparison' && data.comparisonData) {
-    return (
-      <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
-        <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-2xl overflow-hidden shadow-2xl">
-          <div className="bg-slate-900/50 px-6 py-4 border-b border-slate-700 flex items-center justify-between">
-            <h3 className="font-bold text-lg text-indigo-300">{data.title || 'Comparison'}</h3>
-            <span className="text-xs uppercase tracking-widest text-slate-500 font-bold bg-slate-800 px-2 py-1 rounded">Auto-Generated</span>
+// --- Chart ---
+
+const CHART_COLORS = ['#818cf8', '#34d399', '#f472b6', '#fbbf24', '#38bdf8', '#a78bfa'];
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 280;
+const CHART_PAD = { top: 16, right: 16, bottom: 32, left: 56 };
+
+const formatChartValue = (value: number, unit?: string) => {
+  const rounded = Math.abs(value) >= 1000 ? Math.round(value).toLocaleString() : String(Math.round(value * 100) / 100);
+  if (!unit) return rounded;
+  return unit === '%' ? `${rounded}%` : `${rounded} ${unit}`;
+};
+
+const ChartWidget: React.FC<{ title?: string; chart: ChartData }> = ({ title, chart }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const { labels, series, kind, unit } = chart;
+
+  const allValues = series.flatMap(s => s.values);
+  const min = Math.min(0, ...allValues);
+  const max = Math.max(...allValues) === min ? min + 1 : Math.max(...allValues);
+  const plotWidth = CHART_WIDTH - CHART_PAD.left - CHART_PAD.right;
+  const plotHeight = CHART_HEIGHT - CHART_PAD.top - CHART_PAD.bottom;
+  const slot = plotWidth / labels.length;
+
+  const yFor = (value: number) => CHART_PAD.top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+  const xFor = (index: number) => CHART_PAD.left + slot * index + slot / 2;
+  const ticks = Array.from({ length: 5 }, (_, i) => min + ((max - min) * i) / 4);
+  // Thin out x labels so they never overlap
+  const labelEvery = Math.ceil(labels.length / 10);
+  const barWidth = (slot * 0.7) / series.length;
+
+  return (
+    <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <h3 className="font-bold text-lg text-indigo-300 mb-4 flex items-center gap-2">
+        <BarChart3 className="w-5 h-5" /> {title || 'Chart'}
+      </h3>
+      <div className="bg-slate-800/40 border border-slate-700/50 rounded-2xl p-4">
+        {series.length > 1 && (
+          <div className="flex flex-wrap gap-4 mb-3 text-xs text-slate-400">
+            {series.map((s, i) => (
+              <span key={i} className="flex items-center gap-1.5">
+                <span className="w-3 h-3 rounded-sm" style={{ background: CHART_COLORS[i % CHART_COLORS.length] }}></span>
+                {s.name}
+              </span>
+            ))}
           </div>
-          <div className="overflow-x-auto">
-            <table className="w-full text-left border-collapse">
-              <thead>
-                <tr>
-                  {data.comparisonData.headers.map((header, i) => (
-                    <th key={i} className={`p-4 text-sm font-semibold uppercase tracking-wider text-slate-400 border-b border-slate-700 ${i === 0 ? 'bg-slate-800/30' : 'bg-slate-800/10'}`}>
-                      {header}
-                    </th>
+        )}
+
+        <div className="relative">
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHoverIndex(null)}>
+            {ticks.map((tick, i) => (
+              <g key={i}>
+                <line x1={CHART_PAD.left} x2={CHART_WIDTH - CHART_PAD.right} y1={yFor(tick)} y2={yFor(tick)} stroke="rgba(148,163,184,0.15)" />
+                <text x={CHART_PAD.left - 8} y={yFor(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[10px]">
+                  {formatChartValue(tick, unit)}
+                </text>
+              </g>
+            ))}
+
+            {labels.map((label, i) => (
+              <g key={i}>
+                {hoverIndex === i && (
+                  <rect x={CHART_PAD.left + slot * i} y={CHART_PAD.top} width={slot} height={plotHeight} fill="rgba(99,102,241,0.08)" />
+                )}
+                {i % labelEvery === 0 && (
+                  <text x={xFor(i)} y={CHART_HEIGHT - 10} textAnchor="middle" className="fill-slate-400 text-[10px]">{label}</text>
+                )}
+              </g>
+            ))}
+
+            {kind === 'bar' && series.map((s, sIdx) => s.values.map((value, i) => (
+              <rect
+                key={`${sIdx}-${i}`}
+                x={xFor(i) - (slot * 0.35) + barWidth * sIdx}
+                y={Math.min(yFor(value), yFor(0))}
+                width={Math.max(barWidth - 2, 1)}
+                height={Math.abs(yFor(0) - yFor(value))}
+                rx={2}
+                fill={CHART_COLORS[sIdx % CHART_COLORS.length]}
+                opacity={hoverIndex === null || hoverIndex === i ? 1 : 0.5}
+              />
+            )))}
+
+            {kind === 'line' && series.map((s, sIdx) => {
+              const color = CHART_COLORS[sIdx % CHART_COLORS.length];
+              return (
+                <g key={sIdx}>
+                  <polyline
+                    points={s.values.map((value, i) => `${xFor(i)},${yFor(value)}`).join(' ')}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={2.5}
+                    strokeLinejoin="round"
+                  />
+                  {s.values.map((value, i) => (
+                    <circle key={i} cx={xFor(i)} cy={yFor(value)} r={hoverIndex === i ? 5 : 3} fill={color} />
                   ))}
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-700/50">
-                {data.comparisonData.rows.map((row, idx) => (
-                  <tr key={idx} className="hover:bg-slate-700/20 transition-colors">
-                    <td className="p-4 font-medium text-indigo-200 bg-slate-800/20">{row.feature}</td>
-                    {row.values.map((val, vIdx) => (
-                      <td key={vIdx} className="p-4 text-slate-300">
-                        {val}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                </g>
+              );
+            })}
+
+            {/* Hover targets, one per label */}
+            {labels.map((_, i) => (
+              <rect key={i} x={CHART_PAD.left + slot * i} y={CHART_PAD.top} width={slot} height={plotHeight} fill="transparent" onMouseEnter={() => setHoverIndex(i)} />
+            ))}
+          </svg>
+
+          {hoverIndex !== null && (
+            <div
+              className="absolute top-0 pointer-events-none -translate-x-1/2 px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 shadow-xl text-xs"
+              style={{ left: `${(xFor(hoverIndex) / CHART_WIDTH) * 100}%` }}
+            >
+              <div className="font-semibold text-white mb-1">{labels[hoverIndex]}</div>
+              {series.map((s, i) => (
+                <div key={i} className="flex items-center gap-2 text-slate-300 whitespace-nowrap">
+                  <span className="w-2 h-2 rounded-full" style={{ background: CHART_COLORS[i % CHART_COLORS.length] }}></span>
+                  {s.name}: <span className="font-mono">{formatChartValue(s.values[hoverIndex], unit)}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
-    );
-  }
-
-  // --- Timeline Widget ---
-  if (data.type === 'timeline' && data.timelineData) {
-    return (
-      <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
-        <h3 className="font-bold text-lg text-indigo-300 mb-6 flex items-center gap-2">
-          <Calendar className="w-5 h-5" /> {data.title || 'Timeline'}
-        </h3>
-        <div className="relative border-l-2 border-slate-700 ml-3 space-y-8 pb-4">
-          {data.timelineData.map((event, idx) => (
-            <div key={idx} className="relative pl-8 group">
-              {/* Timeline Dot */}
-              <div className="absolute -left-[9px] top-1.5 w-4 h-4 rounded-full bg-slate-900 border-2 border-indigo-500 group-hover:bg-indigo-500 transition-colors shadow-[0_0_10px_rgba(99,102,241,0.3)]"></div>
-              
-              <div className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-4 hover:border-indigo-500/30 transition-all hover:shadow-lg">
-                <span className="inline-block px-2 py-0.5 rounded text-xs font-bold bg-indigo-500/10 text-indigo-400 border border-indigo-500/20 mb-2">
-                  {event.year}
-                </span>
-                <h4 className="text-lg font-semibold text-white mb-1">{event.title}</h4>
-                <p className="text-slate-400 text-sm leading-relaxed">{event.description}</p>
+    </div>
+  );
+};
+
+// --- Map ---
+
+const MAP_WIDTH = 480;
+const MAP_HEIGHT = 320;
+const MIN_SPAN_DEGREES = 0.02;
+
+// Equirectangular projection fitted to the locations; a stand-in until we ship map tiles
+const projectLocations = (locations: MapLocation[]) => {
+  const lats = locations.map(l => l.lat);
+  const lngs = locations.map(l => l.lng);
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const lngScale = Math.cos((midLat * Math.PI) / 180) || 1;
+
+  const latSpan = Math.max(Math.max(...lats) - Math.min(...lats), MIN_SPAN_DEGREES) * 1.3;
+  const lngSpan = Math.max((Math.max(...lngs) - Math.min(...lngs)) * lngScale, MIN_SPAN_DEGREES) * 1.3;
+  const scale = Math.min(MAP_WIDTH / lngSpan, MAP_HEIGHT / latSpan);
+  const midLng = (Math.min(...lngs) + Math.max(...lngs)) / 2;
+
+  return locations.map(l => ({
+    x: MAP_WIDTH / 2 + (l.lng - midLng) * lngScale * scale,
+    y: MAP_HEIGHT / 2 - (l.lat - midLat) * scale,
+  }));
+};
+
+const MapWidget: React.FC<{ title?: string; locations: MapLocation[] }> = ({ title, locations }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const points = projectLocations(locations);
+  // Pattern ids are document-wide, so every map needs its own (colons from useId break url() references)
+  const gridId = `map-grid-${useId().replace(/:/g, '')}`;
+
+  return (
+    <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <h3 className="font-bold text-lg text-indigo-300 mb-4 flex items-center gap-2">
+        <MapPin className="w-5 h-5" /> {title || 'Locations'}
+      </h3>
+      <div className="grid md:grid-cols-5 gap-4">
+        <div className="md:col-span-3 bg-slate-900/60 border border-slate-700/50 rounded-2xl overflow-hidden">
+          <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full h-auto">
+            <defs>
+              <pattern id={gridId} width="32" height="32" patternUnits="userSpaceOnUse">
+                <path d="M 32 0 L 0 0 0 32" fill="none" stroke="rgba(148,163,184,0.12)" />
+              </pattern>
+            </defs>
+            <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill={`url(#${gridId})`} />
+            {points.map((point, i) => (
+              <g key={i} className="cursor-pointer" onClick={() => setSelected(i)}>
+                <circle cx={point.x} cy={point.y} r={selected === i ? 16 : 12} fill={selected === i ? '#6366f1' : '#1e293b'} stroke="#818cf8" strokeWidth={2} className="transition-all" />
+                <text x={point.x} y={point.y} textAnchor="middle" dominantBaseline="central" className="fill-white text-[11px] font-bold pointer-events-none">{i + 1}</text>
+              </g>
+            ))}
+          </svg>
+        </div>
+
+        <div className="md:col-span-2 space-y-2 max-h-[320px] overflow-y-auto">
+          {locations.map((location, i) => (
+            <div
+              key={i}
+              onClick={() => setSelected(i)}
+              className={`p-3 rounded-xl border cursor-pointer transition-all ${selected === i ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-slate-800/40 border-slate-700/50 hover:border-slate-600'}`}
+            >
+              <div className="flex items-start gap-3">
+                <span className="w-6 h-6 rounded-full bg-slate-700 text-xs font-bold text-white flex items-center justify-center flex-shrink-0">{i + 1}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-medium text-slate-200">{location.name}</div>
+                  {location.description && <p className="text-xs text-slate-400 mt-0.5 line-clamp-2">{location.description}</p>}
+                  <a
+                    href={`https://www.google.com/maps/search/?api=1&query=${location.lat},${location.lng}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="inline-flex items-center gap-1 text-[11px] text-indigo-400 hover:underline mt-1"
+                  >
+                    Open in Maps <ExternalLink className="w-3 h-3" />
+                  </a>
+                </div>
               </div>
             </div>
           ))}
         </div>
       </div>
-    );
-  }
-
-  // --- Stats Widget ---
-  if (data.type === 'stats' && data.statsData) {
-    return (
-      <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
-         <h3 className="font-bold text-lg text-indigo-300 mb-4">{data.title || 'Key Insights'}</h3>
-         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            {data.statsData.map((stat, idx) => (
-              <div key={idx} className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-5 flex flex-col items-center text-center hover:bg-slate-800/60 hover:border-indigo-500/30 transition-all">
-                 <span className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-2">{stat.label}</span>
-                 <span className="text-2xl md:text-3xl font-bold text-white mb-2">{stat.value}</span>
-                 {stat.trend === 'up' && <div className="flex items-center gap-1 text-xs text-emerald-400"><TrendingUp className="w-3 h-3" /> Trending Up</div>}
-                 {stat.trend === 'down' && <div className="flex items-center gap-1 text-xs text-red-400"><TrendingDown className="w-3 h-3" /> Trending Down</div>}
-                 {stat.trend === 'neutral' && <div className="flex items-center gap-1 text-xs text-slate-400"><Minus className="w-3 h-3" /> Stable</div>}
+    </div>
+  );
+};
+
+// --- Recipe ---
+
+const RecipeWidget: React.FC<{ title?: string; recipe: RecipeData }> = ({ title, recipe }) => {
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+
+  const toggleIngredient = (index: number) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      next.has(index) ? next.delete(index) : next.add(index);
+      return next;
+    });
+  };
+
+  const meta = [
+    recipe.servings && { icon: <Users className="w-3.5 h-3.5" />, label: `Serves ${recipe.servings}` },
+    recipe.prepTime && { icon: <Clock className="w-3.5 h-3.5" />, label: `Prep ${recipe.prepTime}` },
+    recipe.cookTime && { icon: <Flame className="w-3.5 h-3.5" />, label: `Cook ${recipe.cookTime}` },
+  ].filter(Boolean) as { icon: React.ReactNode; label: string }[];
+
+  return (
+    <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="bg-slate-800/40 border border-slate-700/50 rounded-2xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-700/50 bg-slate-900/40">
+          <h3 className="font-bold text-lg text-indigo-300 flex items-center gap-2">
+            <ChefHat className="w-5 h-5" /> {title || 'Recipe'}
+          </h3>
+          {meta.length > 0 && (
+            <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-400">
+              {meta.map(item => <span key={item.label} className="flex items-center gap-1.5">{item.icon} {item.label}</span>)}
+            </div>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-5 divide-y md:divide-y-0 md:divide-x divide-slate-700/50">
+          <div className="md:col-span-2 p-6">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-3">Ingredients</h4>
+            <ul className="space-y-2">
+              {recipe.ingredients.map((ingredient, i) => (
+                <li key={i}>
+                  <label className="flex items-start gap-2.5 text-sm cursor-pointer group">
+                    <input type="checkbox" checked={checked.has(i)} onChange={() => toggleIngredient(i)} className="mt-0.5 accent-indigo-500" />
+                    <span className={checked.has(i) ? 'text-slate-500 line-through' : 'text-slate-300 group-hover:text-white'}>{ingredient}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="md:col-span-3 p-6">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-3">Method</h4>
+            <ol className="space-y-4">
+              {recipe.steps.map((step, i) => (
+                <li key={i} className="flex gap-3">
+                  <span className="w-6 h-6 rounded-full bg-indigo-500/15 border border-indigo-500/30 text-indigo-300 text-xs font-bold flex items-center justify-center flex-shrink-0">{i + 1}</span>
+                  <p className="text-sm text-slate-300 leading-relaxed">{step}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Weather ---
+
+const conditionIcon = (condition: string, className: string) => {
+  const text = condition.toLowerCase();
+  if (/thunder|storm|lightning/.test(text)) return <CloudLightning className={className} />;
+  if (/snow|sleet|flurr/.test(text)) return <CloudSnow className={className} />;
+  if (/rain|shower|drizzle/.test(text)) return <CloudRain className={className} />;
+  if (/fog|mist|haze/.test(text)) return <CloudFog className={className} />;
+  if (/cloud|overcast/.test(text)) return <Cloud className={className} />;
+  return <Sun className={className} />;
+};
+
+const WeatherWidget: React.FC<{ title?: string; weather: WeatherData }> = ({ title, weather }) => {
+  const { current, forecast, unit } = weather;
+  // Shared scale so the temperature bars are comparable across days
+  const lowest = Math.min(...forecast.map(d => d.low));
+  const range = Math.max(Math.max(...forecast.map(d => d.high)) - lowest, 1);
+
+  return (
+    <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="bg-gradient-to-br from-sky-900/30 to-slate-800/40 border border-slate-700/50 rounded-2xl p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div>
+            <h3 className="font-bold text-lg text-indigo-300">{title || weather.location || 'Weather'}</h3>
+            {title && weather.location && <div className="text-xs text-slate-500 mt-0.5">{weather.location}</div>}
+          </div>
+          {current && (
+            <div className="flex items-center gap-4">
+              {conditionIcon(current.condition, 'w-12 h-12 text-amber-300')}
+              <div className="text-right">
+                <div className="text-4xl font-bold text-white">{Math.round(current.temperature)}°{unit}</div>
+                <div className="text-sm text-slate-300">{current.condition}</div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {current && (current.humidity !== undefined || current.wind) && (
+          <div className="flex gap-6 mt-4 text-xs text-slate-400">
+            {current.humidity !== undefined && <span className="flex items-center gap-1.5"><Droplets className="w-3.5 h-3.5" /> {current.humidity}% humidity</span>}
+            {current.wind && <span className="flex items-center gap-1.5"><Wind className="w-3.5 h-3.5" /> {current.wind}</span>}
+          </div>
+        )}
+
+        {forecast.length > 0 && (
+          <div className="mt-6 space-y-2">
+            {forecast.map((day, i) => (
+              <div key={i} className="grid grid-cols-[4rem_2rem_3rem_1fr_3rem] items-center gap-3 text-sm">
+                <span className="text-slate-300 font-medium truncate">{day.day}</span>
+                <span title={day.condition}>{conditionIcon(day.condition, 'w-5 h-5 text-slate-300')}</span>
+                <span className="text-xs text-sky-400">{day.precipitation !== undefined && day.precipitation > 0 ? `${Math.round(day.precipitation)}%` : ''}</span>
+                <div className="relative h-1.5 rounded-full bg-slate-700/60">
+                  <div
+                    className="absolute h-full rounded-full bg-gradient-to-r from-sky-400 to-amber-400"
+                    style={{ left: `${((day.low - lowest) / range) * 100}%`, width: `${Math.max(((day.high - day.low) / range) * 100, 4)}%` }}
+                  ></div>
+                </div>
+                <span className="text-right text-slate-400"><span className="text-white">{Math.round(day.high)}°</span> {Math.round(day.low)}°</span>
               </div>
             ))}
-         </div>
+          </div>
+        )}
       </div>
-    );
-  }
-
-  // --- Knowledge Graph Widget ---
-  if (data.type === 'graph' && data.graphData) {
-      const { nodes, links } = data.graphData;
-      
-      // Simple layout calculation: Central node in middle, others orbiting
-      const width = 600;
-      const height = 400;
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const radius = 140;
-
-      const mainNode = nodes.find(n => n.type === 'main') || nodes[0];
-      const subNodes = nodes.filter(n => n.id !== mainNode.id);
-
-      const getNodePos = (index: number, total: number) => {
-          const angle = (index / total) * 2 * Math.PI - Math.PI / 2;
-          return {
-              x: centerX + radius * Math.cos(angle),
-              y: centerY + radius * Math.sin(angle)
-          };
-      };
-
-      return (
-        <div className="w-full my-8 animate-in fade-in zoom-in duration-700">
-           <div className="bg-slate-900/40 border border-slate-700/50 rounded-2xl p-6 relative overflow-hidden">
-              <div className="flex items-center gap-2 mb-4 relative z-10">
-                 <Network className="w-5 h-5 text-indigo-400" />
-                 <h3 className="font-bold text-lg text-indigo-200">{data.title || 'Knowledge Graph'}</h3>
-                 <span className="ml-auto text-xs text-slate-500">Click a node to explore</span>
-              </div>
+    </div>
+  );
+};
+
+// --- Code ---
 
-              <div className="relative w-full h-[400px] flex items-center justify-center">
-                 <svg width="100%" height="100%" viewBox={`0 0 ${width} ${height}`} className="absolute inset-0 pointer-events-none">
-                    {subNodes.map((node, i) => {
-                        const pos = getNodePos(i, subNodes.length);
-                        return (
-                            <line 
-                              key={i} 
-                              x1={centerX} 
-                              y1={centerY} 
-                              x2={pos.x} 
-                              y2={pos.y} 
-                              stroke="rgba(99,102,241,0.3)" 
-                              strokeWidth="2"
-                              strokeDasharray="4 4"
-                            />
-                        );
-                    })}
-                 </svg>
-
-                 {/* Main Node */}
-                 <button 
-                   onClick={() => onNodeClick && onNodeClick(mainNode.label)}
-                   className="absolute z-20 w-24 h-24 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 shadow-[0_0_30px_rgba(99,102,241,0.5)] flex items-center justify-center p-2 text-center text-xs font-bold text-white hover:scale-110 transition-transform cursor-pointer animate-pulse"
-                   style={{ left: '50%', top: '50%', transform: 'translate(-50%, -50%)' }}
-                 >
-                    {mainNode.label}
-                 </button>
-
-                 {/* Sub Nodes */}
-                 {subNodes.map((node, i) => {
-                    const pos = getNodePos(i, subNodes.length);
-                    return (
-                        <button
-                           key={node.id}
-                           onClick={() => onNodeClick && onNodeClick(node.label)}
-                           className="absolute z-20 w-20 h-20 rounded-full bg-slate-800 border border-slate-600 hover:border-indigo-400 hover:bg-slate-700 shadow-xl flex items-center justify-center p-2 text-center text-[10px] font-medium text-slate-200 transition-all duration-300 hover:scale-110 cursor-pointer"
-                           style={{ 
-                               left: pos.x, 
-                               top: pos.y, 
-                               transform: 'translate(-50%, -50%)',
-                               animation: `float 3s ease-in-out infinite ${i * 0.5}s`
-                           }}
-                        >
-                           {node.label}
-                        </button>
-                    );
-                 })}
+const CodeWidget: React.FC<{ title?: string; snippet: CodeData }> = ({ title, snippet }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy code", e);
+    }
+  };
+
+  return (
+    <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      {title && (
+        <h3 className="font-bold text-lg text-indigo-300 mb-4 flex items-center gap-2">
+          <Code2 className="w-5 h-5" /> {title}
+        </h3>
+      )}
+      <div className="bg-slate-950 border border-slate-700/50 rounded-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-slate-800 bg-slate-900/60">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="px-2 py-0.5 rounded bg-indigo-500/15 text-indigo-300 font-mono">{snippet.language}</span>
+            {snippet.filename && <span className="text-slate-500 font-mono">{snippet.filename}</span>}
+          </div>
+          <button onClick={handleCopy} className="flex items-center gap-1.5 px-2 py-1 text-xs text-slate-400 hover:text-white rounded-md hover:bg-slate-800 transition-colors">
+            {copied ? <><Check className="w-3.5 h-3.5 text-emerald-400" /> Copied</> : <><Copy className="w-3.5 h-3.5" /> Copy</>}
+          </button>
+        </div>
+        <pre className="p-4 overflow-x-auto text-sm leading-relaxed font-mono">
+          <code>
+            {snippet.code.split('\n').map((line, i) => (
+              <div key={i} className="table-row">
+                <span className="table-cell pr-4 text-right text-slate-600 select-none">{i + 1}</span>
+                <span className="table-cell text-slate-200 whitespace-pre">{line}</span>
               </div>
-           </div>
-           
-           <style>{`
-             @keyframes float {
-               0%, 100% { transform: translate(-50%, -50%) translateY(0); }
-               50% { transform: translate(-50%, -50%) translateY(-10px); }
-             }
-           `}</style>
+            ))}
+          </code>
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+// --- Table ---
+
+const TableWidget: React.FC<{ title?: string; table: TableData }> = ({ title, table }) => (
+  <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+    <div className="bg-slate-800/50 border border-slate-700 rounded-2xl overflow-hidden">
+      <div className="bg-slate-900/50 px-6 py-4 border-b border-slate-700 flex items-center gap-2">
+        <Table2 className="w-5 h-5 text-indigo-300" />
+        <h3 className="font-bold text-lg text-indigo-300">{title || 'Table'}</h3>
+        <span className="ml-auto text-xs text-slate-500">{table.rows.length} rows</span>
+      </div>
+      <div className="overflow-auto max-h-[480px]">
+        <table className="w-full text-left border-collapse text-sm">
+          <thead className="sticky top-0 bg-slate-800">
+            <tr>
+              {table.columns.map((column, i) => (
+                <th key={i} className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-400 border-b border-slate-700 whitespace-nowrap">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {table.rows.map((row, idx) => (
+              <tr key={idx} className="hover:bg-slate-700/20 transition-colors">
+                {row.map((cell, cIdx) => (
+                  <td key={cIdx} className={`px-4 py-3 ${cIdx === 0 ? 'font-medium text-slate-200' : 'text-slate-300'}`}>{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  </div>
+);
+
+// --- Timeline ---
+
+const TimelineWidget: React.FC<{ title?: string; events: TimelineEvent[] }> = ({ title, events }) => (
+  <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+    <h3 className="font-bold text-lg text-indigo-300 mb-6 flex items-center gap-2">
+      <Calendar className="w-5 h-5" /> {title || 'Timeline'}
+    </h3>
+    <div className="relative border-l-2 border-slate-700 ml-3 space-y-8 pb-4">
+      {events.map((event, idx) => (
+        <div key={idx} className="relative pl-8 group">
+          {/* Timeline Dot */}
+          <div className="absolute -left-[9px] top-1.5 w-4 h-4 rounded-full bg-slate-900 border-2 border-indigo-500 group-hover:bg-indigo-500 transition-colors shadow-[0_0_10px_rgba(99,102,241,0.3)]"></div>
+          
+          <div className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-4 hover:border-indigo-500/30 transition-all hover:shadow-lg">
+            <span className="inline-block px-2 py-0.5 rounded text-xs font-bold bg-indigo-500/10 text-indigo-400 border border-indigo-500/20 mb-2">
+              {event.year}
+            </span>
+            <h4 className="text-lg font-semibold text-white mb-1">{event.title}</h4>
+            <p className="text-slate-400 text-sm leading-relaxed">{event.description}</p>
+          </div>
         </div>
-      );
-  }
+      ))}
+    </div>
+  </div>
+);
+
+// --- Stats ---
+
+const StatsWidget: React.FC<{ title?: string; stats: StatItem[] }> = ({ title, stats }) => (
+  <div className="w-full my-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+     <h3 className="font-bold text-lg text-indigo-300 mb-4">{title || 'Key Insights'}</h3>
+     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat, idx) => (
+          <div key={idx} className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-5 flex flex-col items-center text-center hover:bg-slate-800/60 hover:border-indigo-500/30 transition-all">
+             <span className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-2">{stat.label}</span>
+             <span className="text-2xl md:text-3xl font-bold text-white mb-2">{stat.value}</span>
+             {stat.trend === 'up' && <div className="flex items-center gap-1 text-xs text-emerald-400"><TrendingUp className="w-3 h-3" /> Trending Up</div>}
+             {stat.trend === 'down' && <div className="flex items-center gap-1 text-xs text-red-400"><TrendingDown className="w-3 h-3" /> Trending Down</div>}
+             {stat.trend === 'neutral' && <div className="flex items-center gap-1 text-xs text-slate-400"><Minus className="w-3 h-3" /> Stable</div>}
+          </div>
+        ))}
+     </div>
+  </div>
+);
+
+// --- Built-in renderers ---
+
+type BuiltinRenderers = { [K in BuiltinWidgetType]: React.FC<WidgetRenderProps<BuiltinWidgetPayloads[K]>> };
+
+const BUILTIN_RENDERERS: BuiltinRenderers = {
+  comparison: ({ title, data, onChange, host }) => (
+    <ComparisonTable
+      title={title}
+      data={data}
+      onAddItem={host.onAddComparisonItem}
+      onRemoveItem={onChange && ((itemIndex) => onChange(removeComparisonItem(data, itemIndex)))}
+    />
+  ),
+  timeline: ({ title, data }) => <TimelineWidget title={title} events={data} />,
+  stats: ({ title, data }) => <StatsWidget title={title} stats={data} />,
+  graph: ({ title, data, host }) => <GraphExplorer title={title} data={data} onExpandNode={host.onExpandGraphNode} onSearch={host.onSearch} />,
+  chart: ({ title, data }) => <ChartWidget title={title} chart={data} />,
+  map: ({ title, data }) => <MapWidget title={title} locations={data} />,
+  recipe: ({ title, data }) => <RecipeWidget title={title} recipe={data} />,
+  weather: ({ title, data }) => <WeatherWidget title={title} weather={data} />,
+  code: ({ title, data }) => <CodeWidget title={title} snippet={data} />,
+  table: ({ title, data }) => <TableWidget title={title} table={data} />,
+};
+
+
+// A plugin registered for a built-in type with its own renderer still takes precedence
+(Object.keys(BUILTIN_RENDERERS) as BuiltinWidgetType[]).forEach(<K extends BuiltinWidgetType>(type: K) => {
+  registerFallbackRenderer<BuiltinWidgetPayloads[K]>(type, BUILTIN_RENDERERS[type]);
+});
+
+/** Renders any registered widget; unknown types and missing payloads render nothing. */
+export const SmartWidgets: React.FC<SmartWidgetsProps> = ({ data, onNodeClick, onWidgetChange, onAddComparisonItem, onExpandGraphNode }) => {
+  const plugin = getWidgetPlugin(data.type);
+  const payload = plugin && data[plugin.dataKey];
+  if (!plugin || payload === undefined || payload === null) return null;
 
-  return null;
+  const Renderer = getWidgetRenderer(plugin.type);
+  if (!Renderer) return null;
+  return (
+    <Renderer
+      title={data.title}
+      data={payload}
+      onChange={onWidgetChange && ((next: unknown) => onWidgetChange({ ...data, [plugin.dataKey]: next }))}
+      host={{ onSearch: onNodeClick, onAddComparisonItem, onExpandGraphNode }}
+    />
+  );
 };
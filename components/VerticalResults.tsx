@@ -0,0 +1,143 @@
+import React from 'react';
+import { ImageResult, NewsResult, ResultVertical, ShoppingResult, VerticalResultMap, VideoResult } from '../types';
+import { Newspaper, Image as ImageIcon, PlayCircle, ShoppingBag, Star, ExternalLink } from 'lucide-react';
+
+interface VerticalResultsProps {
+  vertical: ResultVertical;
+  results: VerticalResultMap[ResultVertical][];
+  isLoading: boolean;
+}
+
+const formatNewsDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const NewsList: React.FC<{ results: NewsResult[] }> = ({ results }) => (
+  <div className="space-y-4">
+    {results.map((article, idx) => (
+      <a key={idx} href={article.url} target="_blank" rel="noreferrer" className="group block bg-slate-800/30 p-5 rounded-xl border border-transparent hover:border-slate-700 hover:bg-slate-800/50 transition-all animate-in fade-in slide-in-from-bottom-4" style={{ animationDelay: `${idx * 50}ms` }}>
+        <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+          <Newspaper className="w-3.5 h-3.5 text-indigo-400" />
+          <span className="font-semibold text-slate-300">{article.publisher}</span>
+          <span>·</span>
+          <span>{formatNewsDate(article.publishedAt)}</span>
+        </div>
+        <h3 className="text-lg text-blue-400 group-hover:underline font-medium leading-snug">{article.title}</h3>
+        {article.snippet && <p className="text-sm text-slate-400 mt-1 leading-relaxed">{article.snippet}</p>}
+      </a>
+    ))}
+  </div>
+);
+
+const ImageGrid: React.FC<{ results: ImageResult[] }> = ({ results }) => (
+  <div className="columns-2 md:columns-3 gap-4 space-y-4">
+    {results.map((image, idx) => (
+      <div key={idx} className="break-inside-avoid group rounded-xl overflow-hidden bg-slate-800/40 border border-slate-700/50 hover:border-indigo-500/40 transition-all animate-in fade-in">
+        <a href={image.url} target="_blank" rel="noreferrer" className="block bg-slate-800">
+          <img
+            src={image.thumbnailUrl}
+            alt={image.title}
+            loading="lazy"
+            className="w-full object-cover group-hover:opacity-90 transition-opacity"
+            onError={(e) => { (e.target as HTMLImageElement).style.visibility = 'hidden'; }}
+          />
+        </a>
+        <a href={image.sourcePageUrl} target="_blank" rel="noreferrer" className="flex items-center justify-between gap-2 px-3 py-2">
+          <div className="min-w-0">
+            <div className="text-xs text-slate-200 truncate">{image.title}</div>
+            <div className="text-[10px] text-slate-500 truncate">{image.siteName}</div>
+          </div>
+          <ExternalLink className="w-3 h-3 text-slate-500 flex-shrink-0" />
+        </a>
+      </div>
+    ))}
+  </div>
+);
+
+const VideoList: React.FC<{ results: VideoResult[] }> = ({ results }) => (
+  <div className="grid md:grid-cols-2 gap-4">
+    {results.map((video, idx) => (
+      <a key={idx} href={video.url} target="_blank" rel="noreferrer" className="group rounded-xl overflow-hidden bg-slate-800/30 border border-transparent hover:border-slate-700 transition-all animate-in fade-in slide-in-from-bottom-4" style={{ animationDelay: `${idx * 50}ms` }}>
+        <div className="relative aspect-video bg-slate-800 flex items-center justify-center">
+          {video.thumbnailUrl ? (
+            <img src={video.thumbnailUrl} alt={video.title} loading="lazy" className="absolute inset-0 w-full h-full object-cover" onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }} />
+          ) : null}
+          <PlayCircle className="relative w-12 h-12 text-white/80 group-hover:scale-110 transition-transform drop-shadow-lg" />
+          {video.duration && (
+            <span className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-black/80 text-[11px] font-mono text-white">{video.duration}</span>
+          )}
+        </div>
+        <div className="p-3">
+          <h3 className="text-sm text-slate-100 font-medium line-clamp-2 group-hover:text-blue-400">{video.title}</h3>
+          <div className="text-xs text-slate-500 mt-1">
+            {video.channel}{video.date && ` · ${video.date}`}
+          </div>
+        </div>
+      </a>
+    ))}
+  </div>
+);
+
+const ShoppingGrid: React.FC<{ results: ShoppingResult[] }> = ({ results }) => (
+  <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+    {results.map((product, idx) => (
+      <a key={idx} href={product.url} target="_blank" rel="noreferrer" className="group flex flex-col rounded-xl overflow-hidden bg-slate-800/30 border border-slate-700/50 hover:border-indigo-500/40 hover:bg-slate-800/60 transition-all animate-in fade-in">
+        <div className="aspect-square bg-slate-800 flex items-center justify-center">
+          {product.imageUrl ? (
+            <img src={product.imageUrl} alt={product.title} loading="lazy" className="w-full h-full object-contain p-4" onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }} />
+          ) : (
+            <ShoppingBag className="w-10 h-10 text-slate-600" />
+          )}
+        </div>
+        <div className="p-3 flex flex-col gap-1 flex-1">
+          <h3 className="text-sm text-slate-200 line-clamp-2 group-hover:text-white">{product.title}</h3>
+          <div className="text-lg font-bold text-white mt-auto">{product.price}</div>
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span className="truncate">{product.merchant}</span>
+            {product.rating !== undefined && (
+              <span className="flex items-center gap-0.5 text-amber-400">
+                <Star className="w-3 h-3 fill-current" /> {product.rating.toFixed(1)}
+              </span>
+            )}
+          </div>
+        </div>
+      </a>
+    ))}
+  </div>
+);
+
+const EMPTY_ICONS: Record<ResultVertical, React.ReactNode> = {
+  news: <Newspaper className="w-8 h-8" />,
+  images: <ImageIcon className="w-8 h-8" />,
+  videos: <PlayCircle className="w-8 h-8" />,
+  shopping: <ShoppingBag className="w-8 h-8" />,
+};
+
+export const VerticalResults: React.FC<VerticalResultsProps> = ({ vertical, results, isLoading }) => {
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${vertical === 'news' ? 'space-y-4' : 'grid grid-cols-2 md:grid-cols-3 gap-4'}`}>
+        {Array.from({ length: 6 }).map((_, i) => (
+          <div key={i} className={`bg-slate-800/40 rounded-xl ${vertical === 'news' ? 'h-24' : 'h-48'}`}></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-slate-500 gap-3">
+        {EMPTY_ICONS[vertical]}
+        <span className="text-sm">No {vertical} results for this search.</span>
+      </div>
+    );
+  }
+
+  if (vertical === 'news') return <NewsList results={results as NewsResult[]} />;
+  if (vertical === 'images') return <ImageGrid results={results as ImageResult[]} />;
+  if (vertical === 'videos') return <VideoList results={results as VideoResult[]} />;
+  return <ShoppingGrid results={results as ShoppingResult[]} />;
+};
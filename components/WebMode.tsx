@@ -1,9 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Search, Mic, MicOff, Sparkles, MoreVertical, Globe, Share2 } from 'lucide-react';
-import { performWebSearch } from '../services/gemini';
-import { SearchResult, SmartWidgetData } from '../types';
-import ReactMarkdown from 'react-markdown';
+import { Search, Mic, MicOff, Sparkles, MoreVertical, Globe, Share2, Database, CornerDownRight, ArrowUp, History, RotateCw, X, SlidersHorizontal, Copy, FileText, FileJson, FileSpreadsheet, Image as ImageIcon } from 'lucide-react';
+import { performWebSearchStream, performVerticalSearch, performComparisonItemSearch, performSubgraphSearch } from '../services/gemini';
+import { hasComparisonItem, mergeComparisonItem } from '../services/comparison';
+import { SEARCH_VERTICALS } from '../services/verticals';
+import { describeOperator, formatQuery, parseQuery, removeOperator } from '../services/queryParser';
+import { resolveLocale, toSpeechLang } from '../services/locale';
+import { listSearchProviders, getActiveSearchProviderId, setActiveSearchProvider } from '../services/searchProviders';
+import { listSearchHistory, saveSearchHistory, deleteSearchHistory, clearSearchHistory } from '../services/searchHistory';
+import { ChatMessage, ResultVertical, SearchHistoryEntry, SearchResponse, SearchResult, SearchVertical, SmartWidgetData, UserProfile, VerticalResultMap } from '../types';
 import { SmartWidgets } from './SmartWidgets';
+import { HistoryPanel } from './HistoryPanel';
+import { VerticalResults } from './VerticalResults';
+import { CitedMarkdown } from './CitedMarkdown';
+import { ExportAction, ExportMenu } from './ExportMenu';
+import { copyToClipboard, downloadBlob, downloadText, hasCsvExport, hasSvgExport, slugify, svgToPng, threadToMarkdown, widgetToCsv, widgetToJson, widgetToMarkdown, widgetToSvg } from '../services/exporters';
 
 const QUICK_PROMPTS = [
   "Pixel 9 vs iPhone 15",
@@ -12,14 +22,167 @@ const QUICK_PROMPTS = [
   "How does Blockchain work"
 ];
 
-export const WebMode: React.FC = () => {
+const createMessageId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface VerticalState {
+  vertical: ResultVertical;
+  results: VerticalResultMap[ResultVertical][];
+  isLoading: boolean;
+}
+
+interface ThreadTurn {
+  question: ChatMessage;
+  answer?: ChatMessage;
+}
+
+// Pairs each user question with the model answer that follows it
+const groupTurns = (thread: ChatMessage[]): ThreadTurn[] =>
+  thread.reduce<ThreadTurn[]>((turns, message) => {
+    if (message.role === 'user') {
+      turns.push({ question: message });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].answer = message;
+    }
+    return turns;
+  }, []);
+
+const CLIPBOARD_ERROR = 'Could not access the clipboard';
+
+// Page-level exports, plus the widget's own formats when the answer has one.
+// Built on every render, so the exports themselves are only produced when an action runs.
+const buildExportActions = (thread: ChatMessage[], answer: ChatMessage): ExportAction[] => {
+  const baseName = slugify(thread[0]?.text || 'alexis');
+  const actions: ExportAction[] = [
+    {
+      id: 'page-copy', section: 'Page', label: 'Copy as Markdown', icon: <Copy className="w-4 h-4" />,
+      run: async () => (await copyToClipboard(threadToMarkdown(thread))) ? 'Page copied to clipboard' : CLIPBOARD_ERROR,
+    },
+    {
+      id: 'page-md', section: 'Page', label: 'Download Markdown', icon: <FileText className="w-4 h-4" />,
+      run: () => { downloadText(`${baseName}.md`, threadToMarkdown(thread), 'text/markdown'); return `Downloaded ${baseName}.md`; },
+    },
+  ];
+
+  const widget = answer.widget;
+  if (!widget) return actions;
+  const widgetName = `${baseName}-${widget.type}`;
+
+  actions.push({
+    id: 'widget-copy', section: 'Widget', label: 'Copy widget', icon: <Copy className="w-4 h-4" />,
+    run: async () => (await copyToClipboard(widgetToMarkdown(widget))) ? 'Widget copied to clipboard' : CLIPBOARD_ERROR,
+  });
+
+  if (hasCsvExport(widget)) {
+    actions.push({
+      id: 'widget-csv', section: 'Widget', label: 'Download CSV', icon: <FileSpreadsheet className="w-4 h-4" />,
+      run: () => { downloadText(`${widgetName}.csv`, widgetToCsv(widget)!, 'text/csv'); return `Downloaded ${widgetName}.csv`; },
+    });
+  }
+
+  actions.push({
+    id: 'widget-json', section: 'Widget', label: 'Download JSON', icon: <FileJson className="w-4 h-4" />,
+    run: () => { downloadText(`${widgetName}.json`, widgetToJson(widget), 'application/json'); return `Downloaded ${widgetName}.json`; },
+  });
+
+  // Graph images run the full force layout, so they're only drawn on demand
+  if (hasSvgExport(widget)) {
+    actions.push(
+      {
+        id: 'widget-svg', section: 'Widget', label: 'Download SVG', icon: <ImageIcon className="w-4 h-4" />,
+        run: () => { downloadText(`${widgetName}.svg`, widgetToSvg(widget)!.svg, 'image/svg+xml'); return `Downloaded ${widgetName}.svg`; },
+      },
+      {
+        id: 'widget-png', section: 'Widget', label: 'Download PNG', icon: <ImageIcon className="w-4 h-4" />,
+        run: async () => { downloadBlob(`${widgetName}.png`, await svgToPng(widgetToSvg(widget)!)); return `Downloaded ${widgetName}.png`; },
+      },
+    );
+  }
+
+  return actions;
+};
+
+const OrganicResult: React.FC<{ result: SearchResult; index: number; anchorId: string }> = ({ result, index, anchorId }) => (
+  <div id={anchorId} className="group animate-in fade-in slide-in-from-bottom-4 bg-slate-800/30 p-4 rounded-xl hover:bg-slate-800/50 transition-all border border-transparent hover:border-slate-700" style={{ animationDelay: `${index * 50}ms` }}>
+      <div className="flex flex-col gap-2">
+          {/* Favicon & Site Name */}
+          <div className="flex items-center gap-3 text-sm text-slate-400">
+            <div className="w-8 h-8 bg-slate-800 rounded-lg flex items-center justify-center overflow-hidden border border-slate-700">
+                <img 
+                    src={`https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`} 
+                    alt="favicon"
+                    className="w-5 h-5 opacity-70"
+                    onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+                />
+            </div>
+            <div className="flex flex-col leading-tight">
+                <span className="font-medium text-slate-300">
+                  <span className="text-slate-500 mr-1.5">{index + 1}.</span>{result.siteName || new URL(result.url).hostname}
+                </span>
+                <span className="text-xs text-slate-500 truncate max-w-[300px]">{result.url}</span>
+            </div>
+          </div>
+          
+          {/* Title */}
+          <a href={result.url} target="_blank" rel="noreferrer" className="block">
+            <h3 className="text-xl text-blue-400 group-hover:underline visited:text-purple-400 font-medium tracking-tight">
+                {result.title}
+            </h3>
+          </a>
+          
+          {/* Snippet */}
+          <div className="text-base text-slate-400 leading-relaxed">
+            {result.date && <span className="text-slate-500 text-xs mr-2">{result.date} —</span>}
+            {result.snippet || "No description available for this result. Click to view the page."}
+          </div>
+      </div>
+  </div>
+);
+
+// Follow-up answers list their sources compactly so the thread stays scannable
+const CompactSource: React.FC<{ result: SearchResult; index: number; anchorId: string }> = ({ result, index, anchorId }) => (
+  <a id={anchorId} href={result.url} target="_blank" rel="noreferrer" className="flex-shrink-0 w-60 p-3 bg-slate-800/30 border border-slate-700/50 rounded-xl hover:bg-slate-800/60 hover:border-indigo-500/40 transition-all">
+    <div className="text-[10px] font-mono text-slate-500 truncate">{index + 1}. {result.siteName || new URL(result.url).hostname}</div>
+    <div className="text-sm text-blue-400 font-medium line-clamp-2 mt-1">{result.title}</div>
+  </a>
+);
+
+interface WebModeProps {
+  user: UserProfile;
+}
+
+export const WebMode: React.FC<WebModeProps> = ({ user }) => {
   const [query, setQuery] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [results, setResults] = useState<{ text: string; sources: SearchResult[]; widget?: SmartWidgetData } | null>(null);
+  const [thread, setThread] = useState<ChatMessage[]>([]);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [followUp, setFollowUp] = useState('');
   const [isMicListening, setIsMicListening] = useState(false);
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeVertical, setActiveVertical] = useState<SearchVertical>('all');
+  const [verticalState, setVerticalState] = useState<VerticalState | null>(null);
+  const [providerId, setProviderId] = useState(getActiveSearchProviderId);
+  const [toast, setToast] = useState<string | null>(null);
 
   // Voice Search Refs
   const recognitionRef = useRef<any>(null);
+  // Ignores stream updates from a search that has since been replaced
+  const searchIdRef = useRef(0);
+  // History entry the current thread is saved under
+  const historyEntryIdRef = useRef<string | null>(null);
+  const verticalRequestIdRef = useRef(0);
+  const toastTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Read through a ref so the voice search callback always uses the current settings
+  const locale = resolveLocale(user);
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+  const speechLang = toSpeechLang(locale);
+  // Widget edits finish asynchronously and must apply to the thread as it is by then
+  const threadRef = useRef(thread);
+  threadRef.current = thread;
+
+  useEffect(() => {
+    listSearchHistory(user.email).then(setHistory);
+  }, [user.email]);
 
   useEffect(() => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
@@ -31,7 +194,7 @@ export const WebMode: React.FC = () => {
       recognitionRef.current.onresult = (event: any) => {
         const transcript = event.results[0][0].transcript;
         setQuery(transcript);
-        handleSearch(transcript);
+        handleSearchRef.current(transcript);
         setIsMicListening(false);
       };
       
@@ -40,6 +203,10 @@ export const WebMode: React.FC = () => {
     }
   }, []);
 
+  useEffect(() => {
+    if (recognitionRef.current) recognitionRef.current.lang = speechLang;
+  }, [speechLang]);
+
   const toggleMic = () => {
     if (!recognitionRef.current) return;
     
@@ -52,25 +219,212 @@ export const WebMode: React.FC = () => {
     }
   };
 
-  const handleSearch = async (searchQuery: string) => {
+  // Asks `question` with `history` as context and streams the answer into the thread
+  const runTurn = async (question: string, context: ChatMessage[], { bypassCache = false } = {}) => {
+    const searchId = ++searchIdRef.current;
+    const answerId = createMessageId();
+    const questionMessage: ChatMessage = { id: createMessageId(), role: 'user', text: question };
+    setThread([...context, questionMessage]);
+    setStreamingId(answerId);
+
+    const updateAnswer = (patch: Partial<SearchResponse>) => {
+      setThread(prev => {
+        const existing = prev.find(m => m.id === answerId);
+        const answer: ChatMessage = {
+          id: answerId,
+          role: 'model',
+          text: patch.text ?? existing?.text ?? '',
+          sources: patch.sources ?? existing?.sources ?? [],
+          widget: patch.widget ?? existing?.widget,
+          citations: patch.citations ?? existing?.citations,
+        };
+        return existing ? prev.map(m => (m.id === answerId ? answer : m)) : [...prev, answer];
+      });
+    };
+
+    const data = await performWebSearchStream(question, (partial) => {
+      if (searchId === searchIdRef.current) updateAnswer(partial);
+    }, { history: context, bypassCache, locale: localeRef.current });
+
+    if (searchId !== searchIdRef.current) return;
+    updateAnswer(data);
+    setStreamingId(null);
+    persistThread([...context, questionMessage, { id: answerId, role: 'model', ...data }]);
+  };
+
+  // Saves the thread under its first question; follow-ups update the same entry
+  const persistThread = async (messages: ChatMessage[]) => {
+    const firstAnswer = messages.find(m => m.role === 'model');
+    if (!firstAnswer) return;
+
+    const entry: SearchHistoryEntry = {
+      id: historyEntryIdRef.current || messages[0].id,
+      userId: user.email,
+      query: messages[0].text,
+      timestamp: Date.now(),
+      text: firstAnswer.text,
+      sources: firstAnswer.sources || [],
+      widget: firstAnswer.widget,
+      thread: messages,
+    };
+    historyEntryIdRef.current = entry.id;
+    await saveSearchHistory(entry);
+    setHistory(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+  };
+
+  // Replays a saved thread without calling the model
+  const openHistoryEntry = (entry: SearchHistoryEntry) => {
+    searchIdRef.current++;
+    historyEntryIdRef.current = entry.id;
+    verticalRequestIdRef.current++;
+    setThread(entry.thread);
+    setStreamingId(null);
+    setFollowUp('');
+    setQuery(entry.query);
+    setActiveVertical('all');
+    setVerticalState(null);
+    setShowHistory(false);
+  };
+
+  const handleDeleteHistory = async (id: string) => {
+    await deleteSearchHistory(id);
+    setHistory(prev => prev.filter(e => e.id !== id));
+    if (historyEntryIdRef.current === id) historyEntryIdRef.current = null;
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm("Clear your entire search history?")) return;
+    await clearSearchHistory(user.email);
+    setHistory([]);
+    historyEntryIdRef.current = null;
+  };
+
+  const loadVertical = async (vertical: ResultVertical, question: string, context: ChatMessage[]) => {
+    const requestId = ++verticalRequestIdRef.current;
+    setVerticalState({ vertical, results: [], isLoading: true });
+    const results = await performVerticalSearch(vertical, question, { history: context, locale: localeRef.current });
+    if (requestId !== verticalRequestIdRef.current) return;
+    setVerticalState({ vertical, results, isLoading: false });
+  };
+
+  const handleSearch = (searchQuery: string) => {
     if (!searchQuery.trim()) return;
-    
     setQuery(searchQuery);
-    setIsLoading(true);
-    setResults(null);
-    
-    const data = await performWebSearch(searchQuery);
-    setResults(data);
-    setIsLoading(false);
+    setFollowUp('');
+    historyEntryIdRef.current = null;
+    runTurn(searchQuery, []);
+    if (activeVertical !== 'all') loadVertical(activeVertical, searchQuery, []);
+  };
+
+  // The recognizer is set up once, so its result handler has to reach the current search
+  const handleSearchRef = useRef(handleSearch);
+  handleSearchRef.current = handleSearch;
+
+  // Verticals search the latest question, with earlier turns as context
+  const selectVertical = (vertical: SearchVertical) => {
+    setActiveVertical(vertical);
+    if (vertical === 'all') return;
+    const lastQuestionIndex = thread.map(m => m.role).lastIndexOf('user');
+    if (lastQuestionIndex === -1) return;
+    loadVertical(vertical, thread[lastQuestionIndex].text, thread.slice(0, lastQuestionIndex));
+  };
+
+  // Re-asks the latest question, skipping the shared result cache
+  const refreshLatestTurn = () => {
+    const lastQuestionIndex = thread.map(m => m.role).lastIndexOf('user');
+    if (lastQuestionIndex === -1 || streamingId) return;
+    runTurn(thread[lastQuestionIndex].text, thread.slice(0, lastQuestionIndex), { bypassCache: true });
+  };
+
+  // Replaces an answer's widget in place and saves the edit with the thread
+  const updateWidget = (answerId: string, widget: SmartWidgetData) => {
+    const next = threadRef.current.map(m => m.id === answerId ? { ...m, widget } : m);
+    setThread(next);
+    persistThread(next);
   };
 
+  const addComparisonItem = async (answerId: string, item: string) => {
+    const widget = threadRef.current.find(m => m.id === answerId)?.widget;
+    if (!widget?.comparisonData) return false;
+
+    const payload = await performComparisonItemSearch(item, widget.comparisonData, { locale: localeRef.current });
+    if (!payload) return false;
+
+    // Re-read in case the table changed while the lookup was running
+    const current = threadRef.current.find(m => m.id === answerId)?.widget;
+    if (!current?.comparisonData) return false;
+    // The model may resolve the name to an item that's already there; column state is keyed by name
+    if (hasComparisonItem(current.comparisonData, payload.item)) return false;
+    updateWidget(answerId, { ...current, comparisonData: mergeComparisonItem(current.comparisonData, payload.item, payload.values) });
+    return true;
+  };
+
+  const onFollowUpSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!followUp.trim() || streamingId) return;
+    runTurn(followUp.trim(), thread);
+    setFollowUp('');
+  };
+
+  const resetSearch = () => {
+    searchIdRef.current++;
+    verticalRequestIdRef.current++;
+    historyEntryIdRef.current = null;
+    setActiveVertical('all');
+    setVerticalState(null);
+    setThread([]);
+    setStreamingId(null);
+    setFollowUp('');
+    setQuery('');
+  };
+
+  const handleProviderChange = (id: string) => {
+    setActiveSearchProvider(id);
+    setProviderId(id);
+  };
+
+  const providerSelect = (
+    <label className="flex items-center gap-2 text-xs text-slate-500" title="Search provider">
+      <Database className="w-4 h-4" />
+      <select
+        value={providerId}
+        onChange={(e) => handleProviderChange(e.target.value)}
+        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-slate-300 focus:outline-none focus:border-indigo-500"
+      >
+        {listSearchProviders().map((provider) => (
+          <option key={provider.id} value={provider.id}>{provider.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const historyButton = (
+    <button
+      onClick={() => setShowHistory(true)}
+      className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+      title="Search history"
+    >
+      <History className="w-5 h-5" />
+    </button>
+  );
+
+  const historyPanel = showHistory && (
+    <HistoryPanel
+      entries={history}
+      onOpen={openHistoryEntry}
+      onDelete={handleDeleteHistory}
+      onClearAll={handleClearHistory}
+      onClose={() => setShowHistory(false)}
+    />
+  );
+
   const onSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     handleSearch(query);
   };
 
   // --- Initial Hero State ---
-  if (!results && !isLoading) {
+  if (thread.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center w-full h-[80vh] px-4">
         <div className="mb-10 text-center">
@@ -112,18 +466,56 @@ export const WebMode: React.FC = () => {
                </button>
              ))}
         </div>
+
+        <div className="mt-6 flex items-center gap-4">
+          {providerSelect}
+          {historyButton}
+        </div>
+
+        {historyPanel}
       </div>
     );
   }
 
   // --- Results State ---
+  const showToast = (message: string) => {
+    setToast(message);
+    if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
+    toastTimeoutRef.current = setTimeout(() => setToast(null), 2500);
+  };
+
+  // Native share sheet where available, otherwise the page goes to the clipboard as Markdown
+  const shareThread = async () => {
+    const markdown = threadToMarkdown(thread);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: thread[0]?.text, text: markdown });
+        return;
+      } catch (e) {
+        if ((e as DOMException).name === 'AbortError') return;
+        console.error("Share failed", e);
+      }
+    }
+    showToast((await copyToClipboard(markdown)) ? 'Copied to clipboard — paste it anywhere' : CLIPBOARD_ERROR);
+  };
+
+  const turns = groupTurns(thread);
+  const parsedQuery = turns.length > 0 ? parseQuery(turns[0].question.text) : null;
+
+  // Drops one operator from the original search and runs it again
+  const removeQueryOperator = (index: number) => {
+    if (!parsedQuery) return;
+    handleSearch(formatQuery(removeOperator(parsedQuery, index)));
+  };
+  const sourceCount = thread.reduce((count, message) => count + (message.sources?.length || 0), 0);
+
   return (
     <div className="flex flex-col w-full min-h-screen bg-slate-900">
       
       {/* Sticky Header - Full Width */}
       <div className="sticky top-0 z-50 bg-slate-900 border-b border-slate-800">
         <div className="w-full px-6 lg:px-10 h-20 flex items-center gap-6">
-           <div className="hidden md:flex items-center gap-2 cursor-pointer" onClick={() => { setResults(null); setQuery(''); }}>
+           <div className="hidden md:flex items-center gap-2 cursor-pointer" onClick={resetSearch}>
               <span className="text-2xl font-bold text-white tracking-tight">Alexis</span>
            </div>
            
@@ -143,13 +535,29 @@ export const WebMode: React.FC = () => {
               </div>
            </form>
 
+           <div className="hidden lg:block">
+              {providerSelect}
+           </div>
+
+           {historyButton}
+
            {/* Placeholder for Profile/Settings */}
            <div className="w-8 h-8 rounded-full bg-indigo-600 hidden md:block"></div>
         </div>
         
         {/* Navigation Tabs - Full Width */}
-        <div className="w-full px-6 lg:px-10 flex gap-6 text-sm text-slate-400">
-            <div className="py-3 border-b-2 border-indigo-500 text-white font-medium cursor-pointer">All</div>
+        <div className="w-full px-6 lg:px-10 flex gap-6 text-sm text-slate-400 overflow-x-auto scrollbar-hide">
+            {SEARCH_VERTICALS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => selectVertical(id)}
+                className={`py-3 border-b-2 whitespace-nowrap transition-colors ${
+                  activeVertical === id ? 'border-indigo-500 text-white font-medium' : 'border-transparent hover:text-slate-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
         </div>
       </div>
 
@@ -158,99 +566,168 @@ export const WebMode: React.FC = () => {
         
         {/* Left Column (Main Results) - Grows to fill but readable max width */}
         <div className="flex-1 max-w-4xl space-y-8">
-           
-           {isLoading && (
-              <div className="space-y-4 animate-pulse">
-                 <div className="h-40 bg-slate-800/50 rounded-2xl"></div>
-                 <div className="h-20 bg-slate-800/30 rounded-xl"></div>
-                 <div className="h-20 bg-slate-800/30 rounded-xl"></div>
+
+           {/* Active search operators */}
+           {parsedQuery && parsedQuery.operators.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 -mb-2">
+                 <SlidersHorizontal className="w-4 h-4 text-slate-500" />
+                 {parsedQuery.operators.map((operator, idx) => (
+                    <span key={`${operator.raw}-${idx}`} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-indigo-500/10 border border-indigo-500/30 text-xs text-indigo-200">
+                       {describeOperator(operator)}
+                       <button
+                         onClick={() => removeQueryOperator(idx)}
+                         className="p-0.5 rounded-full text-indigo-300 hover:text-white hover:bg-indigo-500/40 transition-colors"
+                         title="Remove filter"
+                       >
+                         <X className="w-3 h-3" />
+                       </button>
+                    </span>
+                 ))}
               </div>
            )}
 
-           {!isLoading && results && (
-             <>
-                {/* AI Overview Section */}
-                <div className="rounded-2xl overflow-hidden border border-indigo-500/30 bg-slate-800/20 relative animate-in fade-in slide-in-from-bottom-2">
-                    {/* Gradient Top Bar */}
-                    <div className="h-1.5 w-full bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
-                    
-                    <div className="p-8">
-                        <div className="flex items-center justify-between mb-6">
-                            <div className="flex items-center gap-2">
-                                <Sparkles className="w-6 h-6 text-indigo-400" />
-                                <h3 className="text-xl font-bold text-white">AI Overview</h3>
-                            </div>
-                            <div className="flex gap-2">
-                                <button className="p-2 hover:bg-slate-700 rounded text-slate-400"><Share2 className="w-4 h-4"/></button>
-                                <button className="p-2 hover:bg-slate-700 rounded text-slate-400"><MoreVertical className="w-4 h-4"/></button>
-                            </div>
-                        </div>
-
-                        <div className="prose prose-invert prose-lg max-w-none text-slate-200">
-                            <ReactMarkdown 
-                            components={{
-                                a: ({node, ...props}) => <span className="text-indigo-300 font-medium hover:underline cursor-pointer" {...props} />
-                            }}
-                            >
-                                {results.text}
-                            </ReactMarkdown>
-                        </div>
-
-                        {/* Smart Widget Injection inside AI Overview */}
-                        {results.widget && (
-                            <div className="mt-8 border-t border-slate-700/50 pt-6">
-                                <SmartWidgets 
-                                data={results.widget} 
-                                onNodeClick={(label) => handleSearch(label)} 
-                                />
-                            </div>
-                        )}
+           {activeVertical !== 'all' && (
+              <VerticalResults
+                vertical={activeVertical}
+                results={verticalState?.vertical === activeVertical ? verticalState.results : []}
+                isLoading={verticalState?.vertical !== activeVertical || verticalState.isLoading}
+              />
+           )}
+
+           {activeVertical === 'all' && turns.map((turn, turnIdx) => {
+             const answer = turn.answer;
+             const isLatest = turnIdx === turns.length - 1;
+             const isAnswerStreaming = !!answer && answer.id === streamingId;
+             const sources = answer?.sources || [];
+
+             return (
+               <div key={turn.question.id} className="space-y-8">
+                 {/* Follow-up question */}
+                 {turnIdx > 0 && (
+                    <div className="flex items-start gap-3 pt-4 border-t border-slate-800 animate-in fade-in">
+                        <CornerDownRight className="w-5 h-5 text-indigo-400 mt-1 flex-shrink-0" />
+                        <h2 className="text-2xl font-semibold text-white tracking-tight">{turn.question.text}</h2>
                     </div>
-                </div>
+                 )}
+
+                 {!answer && (
+                    <div className="space-y-4 animate-pulse">
+                       <div className="h-40 bg-slate-800/50 rounded-2xl"></div>
+                       <div className="h-20 bg-slate-800/30 rounded-xl"></div>
+                       <div className="h-20 bg-slate-800/30 rounded-xl"></div>
+                    </div>
+                 )}
 
-                {/* STANDARD ORGANIC RESULTS */}
-                <div className="space-y-6 mt-8">
-                    {results.sources.map((result, idx) => (
-                        <div key={idx} className="group animate-in fade-in slide-in-from-bottom-4 bg-slate-800/30 p-4 rounded-xl hover:bg-slate-800/50 transition-all border border-transparent hover:border-slate-700" style={{ animationDelay: `${idx * 50}ms` }}>
-                            <div className="flex flex-col gap-2">
-                                {/* Favicon & Site Name */}
-                                <div className="flex items-center gap-3 text-sm text-slate-400">
-                                  <div className="w-8 h-8 bg-slate-800 rounded-lg flex items-center justify-center overflow-hidden border border-slate-700">
-                                      <img 
-                                          src={`https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`} 
-                                          alt="favicon"
-                                          className="w-5 h-5 opacity-70"
-                                          onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+                 {answer && (
+                   <>
+                      {/* AI Overview Section */}
+                      <div className="rounded-2xl border border-indigo-500/30 bg-slate-800/20 relative animate-in fade-in slide-in-from-bottom-2">
+                          {/* Gradient Top Bar */}
+                          <div className="h-1.5 w-full rounded-t-2xl bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
+                          
+                          <div className="p-8">
+                              <div className="flex items-center justify-between mb-6">
+                                  <div className="flex items-center gap-2">
+                                      <Sparkles className="w-6 h-6 text-indigo-400" />
+                                      <h3 className="text-xl font-bold text-white">AI Overview</h3>
+                                  </div>
+                                  <div className="flex gap-2">
+                                      {isLatest && (
+                                          <button
+                                            onClick={refreshLatestTurn}
+                                            disabled={!!streamingId}
+                                            className="p-2 hover:bg-slate-700 rounded text-slate-400 disabled:opacity-40"
+                                            title="Refresh results"
+                                          >
+                                            <RotateCw className={`w-4 h-4 ${isAnswerStreaming ? 'animate-spin' : ''}`}/>
+                                          </button>
+                                      )}
+                                      <button onClick={shareThread} disabled={!!streamingId} className="p-2 hover:bg-slate-700 rounded text-slate-400 disabled:opacity-40" title="Share"><Share2 className="w-4 h-4"/></button>
+                                      <ExportMenu
+                                        title="Export"
+                                        trigger={<MoreVertical className="w-4 h-4"/>}
+                                        actions={buildExportActions(thread, answer)}
+                                        onStatus={showToast}
                                       />
                                   </div>
-                                  <div className="flex flex-col leading-tight">
-                                      <span className="font-medium text-slate-300">{result.siteName || new URL(result.url).hostname}</span>
-                                      <span className="text-xs text-slate-500 truncate max-w-[300px]">{result.url}</span>
+                              </div>
+
+                              <div className="prose prose-invert prose-lg max-w-none text-slate-200">
+                                  <CitedMarkdown
+                                    text={answer.text}
+                                    sources={sources}
+                                    citations={answer.citations}
+                                    anchorPrefix={`source-${answer.id}`}
+                                  />
+                                  {isAnswerStreaming && !sources.length && (
+                                      <span className="inline-block w-2 h-5 ml-1 align-middle bg-indigo-400 animate-blink"></span>
+                                  )}
+                              </div>
+
+                              {/* Smart Widget Injection inside AI Overview */}
+                              {answer.widget && (
+                                  <div className="mt-8 border-t border-slate-700/50 pt-6">
+                                      <SmartWidgets 
+                                      data={answer.widget} 
+                                      onNodeClick={(label) => handleSearch(label)} 
+                                      onWidgetChange={isAnswerStreaming ? undefined : (widget) => updateWidget(answer.id, widget)}
+                                      onAddComparisonItem={isAnswerStreaming ? undefined : (item) => addComparisonItem(answer.id, item)}
+                                      onExpandGraphNode={isAnswerStreaming ? undefined : (label, graph) => performSubgraphSearch(label, graph, { locale: localeRef.current })}
+                                      />
                                   </div>
-                                </div>
-                                
-                                {/* Title */}
-                                <a href={result.url} target="_blank" rel="noreferrer" className="block">
-                                  <h3 className="text-xl text-blue-400 group-hover:underline visited:text-purple-400 font-medium tracking-tight">
-                                      {result.title}
-                                  </h3>
-                                </a>
-                                
-                                {/* Snippet */}
-                                <div className="text-base text-slate-400 leading-relaxed">
-                                  {result.date && <span className="text-slate-500 text-xs mr-2">{result.date} —</span>}
-                                  {result.snippet || "No description available for this result. Click to view the page."}
-                                </div>
-                            </div>
-                        </div>
-                    ))}
-                </div>
-             </>
-           )}
+                              )}
+                          </div>
+                      </div>
+
+                      {/* Follow-up box under the latest overview */}
+                      {isLatest && (
+                          <form onSubmit={onFollowUpSubmit} className="flex items-center bg-slate-800/60 rounded-2xl border border-slate-700 focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500/50">
+                              <CornerDownRight className="w-5 h-5 ml-5 text-slate-500" />
+                              <input
+                                type="text"
+                                value={followUp}
+                                onChange={(e) => setFollowUp(e.target.value)}
+                                placeholder={streamingId ? "Alexis is answering..." : "Ask a follow-up..."}
+                                disabled={!!streamingId}
+                                className="w-full bg-transparent px-4 py-3.5 text-base text-white placeholder-slate-500 focus:outline-none disabled:opacity-60"
+                              />
+                              <button type="submit" disabled={!!streamingId || !followUp.trim()} className="p-2 mr-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 transition-colors">
+                                <ArrowUp className="w-4 h-4" />
+                              </button>
+                          </form>
+                      )}
+
+                      {/* Placeholder until the structured part of the stream arrives */}
+                      {isAnswerStreaming && sources.length === 0 && (
+                          <div className="space-y-4 animate-pulse">
+                              <div className="h-20 bg-slate-800/30 rounded-xl"></div>
+                              <div className="h-20 bg-slate-800/30 rounded-xl"></div>
+                          </div>
+                      )}
+
+                      {/* STANDARD ORGANIC RESULTS */}
+                      {turnIdx === 0 ? (
+                          <div className="space-y-6">
+                              {sources.map((result, idx) => (
+                                  <OrganicResult key={idx} result={result} index={idx} anchorId={`source-${answer.id}-${idx}`} />
+                              ))}
+                          </div>
+                      ) : sources.length > 0 && (
+                          <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
+                              {sources.map((result, idx) => (
+                                  <CompactSource key={idx} result={result} index={idx} anchorId={`source-${answer.id}-${idx}`} />
+                              ))}
+                          </div>
+                      )}
+                   </>
+                 )}
+               </div>
+             );
+           })}
         </div>
 
         {/* Right Sidebar (Knowledge Panel) - Sticky */}
-        {results && !isLoading && (
+        {activeVertical === 'all' && sourceCount > 0 && (
           <div className="hidden xl:block w-96 flex-shrink-0">
              <div className="sticky top-28 space-y-6">
                 <div className="bg-slate-800/30 rounded-2xl border border-slate-700/50 p-6 backdrop-blur-sm">
@@ -260,7 +737,7 @@ export const WebMode: React.FC = () => {
                           <Globe className="w-10 h-10 text-slate-500" />
                       </div>
                       <p className="text-sm text-slate-400 leading-relaxed">
-                          Alexis has synthesized this information from {results.sources.length} sources found across the web.
+                          Alexis has synthesized this information from {sourceCount} sources found across the web.
                       </p>
                     </div>
                     <div className="space-y-3">
@@ -274,6 +751,14 @@ export const WebMode: React.FC = () => {
         )}
 
       </div>
+
+      {historyPanel}
+
+      {toast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[110] px-4 py-2.5 rounded-full bg-slate-800 border border-slate-700 text-sm text-white shadow-2xl animate-in fade-in slide-in-from-bottom-2">
+          {toast}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from 'react';
+import { createLiveSessionClient, LiveSessionClient, LiveSessionOptions, LiveSessionStatus } from '../services/liveSession';
+
+/**
+ * One LiveSessionClient for the lifetime of the component, with its status as React state.
+ * The client doesn't connect by itself; call `client.connect()` once the view is ready.
+ * `options.config` may change between renders: the latest one is used on every (re)connect.
+ */
+export const useLiveSession = (options: LiveSessionOptions): { client: LiveSessionClient; status: LiveSessionStatus } => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const clientRef = useRef<LiveSessionClient | null>(null);
+  if (!clientRef.current) {
+    clientRef.current = createLiveSessionClient({ ...options, config: () => optionsRef.current.config() });
+  }
+  const client = clientRef.current;
+
+  const [status, setStatus] = useState<LiveSessionStatus>(() => client.getStatus());
+
+  useEffect(() => {
+    const unsubscribe = client.on('status', setStatus);
+    return () => {
+      unsubscribe();
+      client.disconnect();
+    };
+  }, [client]);
+
+  return { client, status };
+};
@@ -0,0 +1,146 @@
+import { BuiltinWidgetType, ChartData, CodeData, ComparisonData, GraphData, MapLocation, RecipeData, StatItem, TableData, TimelineEvent, WeatherData } from "../types";
+import { BUILTIN_WIDGET_VALIDATORS } from "./searchValidation";
+import { enumField, listOf, numberField, objectOf, registerWidget, stringField, WidgetPlugin } from "./widgetRegistry";
+
+export interface BuiltinWidgetPayloads {
+  comparison: ComparisonData;
+  timeline: TimelineEvent[];
+  stats: StatItem[];
+  graph: GraphData;
+  chart: ChartData;
+  map: MapLocation[];
+  recipe: RecipeData;
+  weather: WeatherData;
+  code: CodeData;
+  table: TableData;
+}
+
+// Renderers live in SmartWidgets and validators in searchValidation; both are looked up by type
+export type BuiltinWidgetDefinition<K extends BuiltinWidgetType> = Omit<WidgetPlugin<BuiltinWidgetPayloads[K]>, 'render' | 'validate'> & { type: K };
+
+export const BUILTIN_WIDGETS: { [K in BuiltinWidgetType]: BuiltinWidgetDefinition<K> } = {
+  comparison: {
+    type: 'comparison',
+    dataKey: 'comparisonData',
+    label: 'Comparison',
+    schema: objectOf({
+      headers: listOf(stringField(), 'First header is the feature column, then one per item, e.g. ["Feature", "Pixel 9", "iPhone 15"]'),
+      rows: listOf(objectOf({ feature: stringField(), values: listOf(stringField(), 'One value per item') }, ['feature', 'values'])),
+    }, ['headers', 'rows']),
+    example: { headers: ['Feature', 'A', 'B'], rows: [{ feature: 'Price', values: ['$1', '$2'] }] },
+  },
+  timeline: {
+    type: 'timeline',
+    dataKey: 'timelineData',
+    label: 'Timeline',
+    schema: listOf(objectOf({ year: stringField(), title: stringField(), description: stringField() }, ['year', 'title'])),
+    example: [{ year: '2020', title: '...', description: '...' }],
+  },
+  stats: {
+    type: 'stats',
+    dataKey: 'statsData',
+    label: 'Stats',
+    schema: listOf(objectOf({ label: stringField(), value: stringField(), trend: enumField(['up', 'down', 'neutral']) }, ['label', 'value'])),
+    example: [{ label: 'GDP', value: '$1T', trend: 'up' }],
+  },
+  graph: {
+    type: 'graph',
+    dataKey: 'graphData',
+    label: 'Graph',
+    guidance: 'One "main" node. Sub nodes may branch into further levels (main → topics → details); link every node and label each link with the relation.',
+    schema: objectOf({
+      nodes: listOf(objectOf({ id: stringField(), label: stringField(), type: enumField(['main', 'sub']) }, ['id', 'label'])),
+      links: listOf(objectOf({ source: stringField('Node id'), target: stringField('Node id'), label: stringField('Relation, e.g. "invented by"') }, ['source', 'target'])),
+    }, ['nodes', 'links']),
+    example: {
+      nodes: [{ id: '1', label: 'Main', type: 'main' }, { id: '2', label: 'Concept', type: 'sub' }],
+      links: [{ source: '1', target: '2', label: 'relates to' }],
+    },
+  },
+  chart: {
+    type: 'chart',
+    dataKey: 'chartData',
+    label: 'Chart',
+    description: 'numeric series over time or categories',
+    guidance: 'Use "kind": "bar" for categories. Values must be plain numbers, one per label.',
+    schema: objectOf({
+      kind: enumField(['line', 'bar']),
+      labels: listOf(stringField(), 'X-axis categories, e.g. years'),
+      series: listOf(objectOf({ name: stringField(), values: listOf(numberField(), 'One per label') }, ['name', 'values'])),
+      unit: stringField('e.g. "%", "$B"'),
+    }, ['kind', 'labels', 'series']),
+    example: { kind: 'line', labels: ['2021', '2022'], series: [{ name: 'Revenue', values: [53.8, 81.5] }], unit: '$B' },
+  },
+  map: {
+    type: 'map',
+    dataKey: 'mapData',
+    label: 'Map',
+    description: 'places to visit, stores, venues',
+    schema: listOf(objectOf({ name: stringField(), lat: numberField(), lng: numberField(), description: stringField() }, ['name', 'lat', 'lng'])),
+    example: [{ name: 'Louvre', lat: 48.8606, lng: 2.3376, description: '...' }],
+  },
+  recipe: {
+    type: 'recipe',
+    dataKey: 'recipeData',
+    label: 'Recipe',
+    schema: objectOf({
+      servings: stringField(),
+      prepTime: stringField(),
+      cookTime: stringField(),
+      ingredients: listOf(stringField()),
+      steps: listOf(stringField()),
+    }, ['ingredients', 'steps']),
+    example: { servings: '4', prepTime: '10 min', cookTime: '20 min', ingredients: ['200g flour'], steps: ['Whisk the eggs...'] },
+  },
+  weather: {
+    type: 'weather',
+    dataKey: 'weatherData',
+    label: 'Weather',
+    schema: objectOf({
+      location: stringField(),
+      unit: enumField(['C', 'F']),
+      current: objectOf({ temperature: numberField(), condition: stringField(), humidity: numberField('Percent'), wind: stringField() }, ['temperature', 'condition']),
+      forecast: listOf(objectOf({
+        day: stringField(),
+        condition: stringField(),
+        high: numberField(),
+        low: numberField(),
+        precipitation: numberField('Chance of rain, 0-100'),
+      }, ['day', 'condition', 'high', 'low'])),
+    }, ['location', 'unit', 'forecast']),
+    example: {
+      location: 'London',
+      unit: 'C',
+      current: { temperature: 14, condition: 'Cloudy', humidity: 70, wind: '12 km/h' },
+      forecast: [{ day: 'Mon', condition: 'Light rain', high: 15, low: 9, precipitation: 60 }],
+    },
+  },
+  code: {
+    type: 'code',
+    dataKey: 'codeData',
+    label: 'Code',
+    description: 'programming questions',
+    schema: objectOf({ language: stringField(), code: stringField(), filename: stringField() }, ['language', 'code']),
+    example: { language: 'python', code: "print('hi')", filename: 'main.py' },
+  },
+  table: {
+    type: 'table',
+    dataKey: 'tableData',
+    label: 'Table',
+    description: 'any other tabular data',
+    schema: objectOf({
+      columns: listOf(stringField()),
+      rows: listOf(listOf(stringField()), 'One cell per column'),
+    }, ['columns', 'rows']),
+    example: { columns: ['Country', 'Capital'], rows: [['France', 'Paris']] },
+  },
+};
+
+// Registered on load, and before any plugin module so the built-ins come first in the search prompt.
+// searchValidation imports this module, so its validators are only looked up once a widget is validated.
+(Object.keys(BUILTIN_WIDGETS) as BuiltinWidgetType[]).forEach(<K extends BuiltinWidgetType>(type: K) => {
+  registerWidget<BuiltinWidgetPayloads[K]>({
+    ...BUILTIN_WIDGETS[type],
+    validate: (widget, path, issues) => BUILTIN_WIDGET_VALIDATORS[type](widget, path, issues),
+  });
+});
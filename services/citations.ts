@@ -0,0 +1,118 @@
+import { GroundingMetadata } from "@google/genai";
+import { Citation, SearchResult } from "../types";
+
+const hostnameOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch (e) {
+    return '';
+  }
+};
+
+// Grounding chunk URIs are redirect links, so match on the page's domain/title instead.
+// Subdomains match only on a dot boundary, so "x.com" isn't taken for "fox.com".
+const findMatchingSource = (sources: SearchResult[], title: string, domain?: string): SearchResult | undefined => {
+  const needle = (domain || title).replace(/^www\./, '').toLowerCase();
+  return sources.find(source => {
+    const host = hostnameOf(source.url);
+    return (host && (host === needle || host.endsWith(`.${needle}`) || needle.endsWith(`.${host}`)))
+      || source.siteName?.toLowerCase() === needle
+      || source.title.toLowerCase() === title.toLowerCase();
+  });
+};
+
+/**
+ * Maps `groundingSupports` onto the displayed sources. Chunks that match no organic
+ * result are appended as extra sources so every citation has a card to point at.
+ */
+export const buildCitations = (
+  metadata: GroundingMetadata | undefined,
+  sources: SearchResult[]
+): { sources: SearchResult[]; citations: Citation[] } => {
+  const chunks = metadata?.groundingChunks || [];
+  const supports = metadata?.groundingSupports || [];
+  if (chunks.length === 0 || supports.length === 0) return { sources, citations: [] };
+
+  const allSources = [...sources];
+  const chunkUrls = chunks.map(chunk => {
+    const web = chunk.web;
+    if (!web?.uri) return null;
+    const match = findMatchingSource(allSources, web.title || '', web.domain);
+    if (match) return match.url;
+
+    allSources.push({
+      title: web.title || "Web Result",
+      url: web.uri,
+      siteName: web.domain || web.title || hostnameOf(web.uri),
+      snippet: "Source found via Google Search grounding.",
+    });
+    return web.uri;
+  });
+
+  const citations = supports
+    .map((support): Citation | null => {
+      const text = support.segment?.text?.trim();
+      const sourceUrls = Array.from(new Set(
+        (support.groundingChunkIndices || [])
+          .map(i => chunkUrls[i])
+          .filter((url): url is string => !!url)
+      ));
+      return text && sourceUrls.length > 0 ? { text, sourceUrls } : null;
+    })
+    .filter((c): c is Citation => c !== null);
+
+  // Only keep appended grounding sources that something actually cites
+  const cited = new Set(citations.flatMap(c => c.sourceUrls));
+  const extras = allSources.slice(sources.length).filter(s => cited.has(s.url));
+
+  return { sources: [...sources, ...extras], citations };
+};
+
+// Segment text from the JSON contract is still JSON-escaped (\n, \")
+const unescapeSegment = (text: string): string => {
+  try {
+    return JSON.parse(`"${text}"`);
+  } catch (e) {
+    return text;
+  }
+};
+
+/**
+ * Inserts `[n](#cite-n)` markers after each cited span of Markdown. Numbers are
+ * 1-based positions in `sources`. Spans that cannot be located are skipped.
+ */
+export const insertCitationMarkers = (text: string, citations: Citation[] = [], sources: SearchResult[]): string => {
+  if (citations.length === 0) return text;
+
+  const insertions: { at: number; marker: string }[] = [];
+  let searchFrom = 0;
+
+  citations.forEach(citation => {
+    const candidates = [citation.text, unescapeSegment(citation.text)];
+    let at = -1;
+    let matched = '';
+    for (const candidate of candidates) {
+      at = text.indexOf(candidate, searchFrom);
+      if (at === -1) at = text.indexOf(candidate);
+      if (at !== -1) {
+        matched = candidate;
+        break;
+      }
+    }
+    if (at === -1) return;
+
+    const numbers = citation.sourceUrls
+      .map(url => sources.findIndex(s => s.url === url) + 1)
+      .filter(n => n > 0);
+    if (numbers.length === 0) return;
+
+    const end = at + matched.length;
+    searchFrom = end;
+    insertions.push({ at: end, marker: numbers.map(n => `[${n}](#cite-${n})`).join('') });
+  });
+
+  // Apply from the end so earlier offsets stay valid
+  return insertions
+    .sort((a, b) => b.at - a.at)
+    .reduce((result, { at, marker }) => result.slice(0, at) + marker + result.slice(at), text);
+};
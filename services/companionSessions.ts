@@ -0,0 +1,42 @@
+import { CompanionSession } from "../types";
+import { STORES, promisifyRequest, withStore } from "./database";
+
+export const saveCompanionSession = async (session: CompanionSession): Promise<void> => {
+  try {
+    await withStore(STORES.companionSessions, 'readwrite', store => promisifyRequest(store.put(session)));
+  } catch (e) {
+    console.error("Failed to save companion session", e);
+  }
+};
+
+// Most recently active first
+export const listCompanionSessions = async (userId: string): Promise<CompanionSession[]> => {
+  try {
+    const sessions = await withStore(STORES.companionSessions, 'readonly', store =>
+      promisifyRequest(store.index('userId').getAll(userId) as IDBRequest<CompanionSession[]>)
+    );
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (e) {
+    console.error("Failed to load companion sessions", e);
+    return [];
+  }
+};
+
+export const deleteCompanionSession = async (id: string): Promise<void> => {
+  try {
+    await withStore(STORES.companionSessions, 'readwrite', store => promisifyRequest(store.delete(id)));
+  } catch (e) {
+    console.error("Failed to delete companion session", e);
+  }
+};
+
+export const clearCompanionSessions = async (userId: string): Promise<void> => {
+  try {
+    await withStore(STORES.companionSessions, 'readwrite', async store => {
+      const keys = await promisifyRequest(store.index('userId').getAllKeys(userId));
+      await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+    });
+  } catch (e) {
+    console.error("Failed to clear companion sessions", e);
+  }
+};
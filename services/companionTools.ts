@@ -0,0 +1,115 @@
+import { Type } from "@google/genai";
+import { HoloData, SmartWidgetData } from "../types";
+import { performWebSearch } from "./gemini";
+import { registerLiveTool } from "./liveTools";
+import { buildRenderWidgetToolDeclaration, parseRenderWidgetArgs } from "./widgetTool";
+
+// The Companion's live tools, registered when this module loads (import it for the side effect)
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+const asNumber = (value: unknown): number | undefined => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const parseHoloData = (raw: Record<string, unknown>): HoloData => {
+  const title = asText(raw.title);
+  if (!title || !Array.isArray(raw.attributes)) throw new Error("HUD needs a title and attributes");
+  return {
+    title,
+    category: asText(raw.category),
+    confidence: asNumber(raw.confidence) ?? 0,
+    attributes: raw.attributes
+      .filter((a): a is Record<string, unknown> => typeof a === 'object' && a !== null)
+      .map(a => ({ label: asText(a.label), value: asText(a.value), score: asNumber(a.score) })),
+    summary: asText(raw.summary),
+  };
+};
+
+registerLiveTool<{ query: string }>({
+  name: 'search_web',
+  declaration: {
+    name: 'search_web',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Search the internet for real-time information, news, facts, recipes, or current events.',
+      properties: {
+        query: { type: Type.STRING, description: 'The search query string.' },
+      },
+      required: ['query'],
+    },
+  },
+  guidance: 'for facts/news. Its result says when it already put a widget on screen.',
+  timeoutMs: 20000,
+  parseArgs: raw => {
+    const query = asText(raw.query);
+    if (!query) throw new Error("Missing search query");
+    return { query };
+  },
+  feedback: ({ query }) => ({ text: `Searching: ${query}`, type: 'search' }),
+  describe: ({ query }) => `Searched: ${query}`,
+  handler: async ({ query }, { locale, signal, showSites, showWidget }) => {
+    const searchResult = await performWebSearch(query, { locale, signal });
+    showSites(searchResult.sources);
+    if (searchResult.widget) showWidget(searchResult.widget);
+    return {
+      result: `Summary: ${searchResult.text}`,
+      ...(searchResult.widget && { widgetShown: `${searchResult.widget.type} widget${searchResult.widget.title ? `: ${searchResult.widget.title}` : ''}` }),
+    };
+  },
+});
+
+registerLiveTool<HoloData>({
+  name: 'render_hud_overlay',
+  declaration: {
+    name: 'render_hud_overlay',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Display a futuristic Heads-Up Display (HUD) overlay with structured analysis of the object visible in the camera.',
+      properties: {
+        title: { type: Type.STRING, description: 'Name of the object identified' },
+        category: { type: Type.STRING, description: 'Category (e.g., Electronics, Food, Nature)' },
+        confidence: { type: Type.NUMBER, description: 'Confidence score between 0 and 100' },
+        attributes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: { type: Type.STRING },
+              value: { type: Type.STRING },
+              score: { type: Type.NUMBER, description: 'Optional relative score 0-100 for visual graph' }
+            }
+          }
+        },
+        summary: { type: Type.STRING, description: 'Short, dense technical summary of the object.' }
+      },
+      required: ['title', 'category', 'attributes', 'summary']
+    },
+  },
+  guidance: 'for visual analysis commands.',
+  timeoutMs: 5000,
+  parseArgs: parseHoloData,
+  feedback: () => ({ text: "Analyzing Target...", type: 'scan' }),
+  describe: data => `Scanned: ${data.title}`,
+  handler: async (data, { showHud }) => {
+    showHud(data);
+    return { result: "HUD Rendered." };
+  },
+});
+
+registerLiveTool<SmartWidgetData>({
+  name: 'render_widget',
+  // Built on demand so widgets registered later are offered too
+  declaration: buildRenderWidgetToolDeclaration,
+  guidance: 'to show comparisons, timelines, stats, charts and other visuals while you talk about them. Keep speaking normally; the widget supports what you say.',
+  timeoutMs: 5000,
+  parseArgs: raw => {
+    const { widget, issues } = parseRenderWidgetArgs(raw);
+    // The error goes back to the model so it can fix the arguments and try again
+    if (!widget) throw new Error(issues.map(i => `${i.path}: ${i.message}`).join('; ') || 'No widget data');
+    return widget;
+  },
+  feedback: widget => ({ text: `Showing: ${widget.title || widget.type}`, type: 'widget' }),
+  describe: widget => `Showed ${widget.type}${widget.title ? `: ${widget.title}` : ''}`,
+  handler: async (widget, { showWidget }) => {
+    showWidget(widget);
+    return { result: "Widget Rendered." };
+  },
+});
@@ -0,0 +1,45 @@
+import { ComparisonData } from "../types";
+
+const EXAMPLE_VALUES = 2;
+
+/** Whether `item` is already a column, ignoring case and surrounding spaces. */
+export const hasComparisonItem = ({ headers }: ComparisonData, item: string): boolean =>
+  headers.slice(1).some(existing => existing.trim().toLowerCase() === item.trim().toLowerCase());
+
+/** Prompt for one extra comparison column: the same feature rows, filled for `item`. */
+export const buildComparisonItemPrompt = (item: string, { headers, rows }: ComparisonData): string => {
+  const existingItems = headers.slice(1);
+  // Existing values show the model the expected style and units
+  const features = rows
+    .map((row, i) => `${i + 1}. ${row.feature} (e.g. ${row.values.slice(0, EXAMPLE_VALUES).join(' / ')})`)
+    .join('\n    ');
+
+  return `
+    You are adding one new column to an existing comparison table.
+
+    Items already compared: ${existingItems.join(', ')}
+    New item: "${item}"
+
+    Search for "${item}" and give its value for each feature below, matching the style and units of the existing values:
+    ${features}
+
+    OUTPUT FORMAT:
+    Return only a JSON object wrapped in \`\`\`json ... \`\`\`:
+    { "item": "Official name of the new item", "values": ["value for feature 1", "value for feature 2", ...] }
+
+    CRITICAL:
+    - "values" must have exactly ${rows.length} entries, in the order above.
+    - Use "—" when a value cannot be found. Keep each value short.
+    `;
+};
+
+export const mergeComparisonItem = (data: ComparisonData, item: string, values: string[]): ComparisonData => ({
+  headers: [...data.headers, item],
+  rows: data.rows.map((row, i) => ({ ...row, values: [...row.values, values[i]] })),
+});
+
+// `itemIndex` counts items only, so 0 is the first column after the feature names
+export const removeComparisonItem = (data: ComparisonData, itemIndex: number): ComparisonData => ({
+  headers: data.headers.filter((_, i) => i !== itemIndex + 1),
+  rows: data.rows.map(row => ({ ...row, values: row.values.filter((_, i) => i !== itemIndex) })),
+});
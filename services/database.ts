@@ -0,0 +1,84 @@
+const DB_NAME = 'alexis';
+const DB_VERSION = 2;
+
+export const STORES = {
+  searchHistory: 'searchHistory',
+  companionSessions: 'companionSessions',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.searchHistory)) {
+    const store = db.createObjectStore(STORES.searchHistory, { keyPath: 'id' });
+    store.createIndex('userId', 'userId', { unique: false });
+  }
+  // Added in version 2
+  if (!db.objectStoreNames.contains(STORES.companionSessions)) {
+    const store = db.createObjectStore(STORES.companionSessions, { keyPath: 'id' });
+    store.createIndex('userId', 'userId', { unique: false });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after we gave up on it: nobody is using it, and it would block the next upgrade
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Another tab is upgrading: step aside so it isn't blocked by us, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // An older tab still holds the previous version open; fail now instead of waiting on it
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error("Database upgrade is blocked by another open tab"));
+      };
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` inside a transaction and resolves once the transaction commits
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // When `work` throws the transaction aborts with nobody awaiting `done` yet
+  done.catch(() => {});
+  const result = await work(tx.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,35 @@
+export interface DebugEvent {
+  channel: string;
+  message: string;
+  details?: unknown;
+  timestamp: number;
+}
+
+type DebugListener = (event: DebugEvent) => void;
+
+const STORAGE_KEY = 'alexis_debug';
+const listeners = new Set<DebugListener>();
+
+// Console output is opt-in via localStorage.alexis_debug = '1' or ?debug in the URL
+export const isDebugEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === '1' || new URLSearchParams(window.location.search).has('debug');
+  } catch (e) {
+    return false;
+  }
+};
+
+export const subscribeDebug = (listener: DebugListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const debugLog = (channel: string, message: string, details?: unknown): void => {
+  const event: DebugEvent = { channel, message, details, timestamp: Date.now() };
+  listeners.forEach(listener => {
+    try { listener(event); } catch (e) {}
+  });
+  if (isDebugEnabled()) {
+    console.debug(`[${channel}] ${message}`, details ?? '');
+  }
+};
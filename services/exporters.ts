@@ -0,0 +1,304 @@
+import { ChatMessage, CompanionSession, SmartWidgetData } from "../types";
+import { computeGraphLevels, layoutGraph } from "./graphLayout";
+
+export interface SvgExport {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'export';
+
+// --- CSV / JSON ---
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | undefined)[][]) => rows.map(row => row.map(csvCell).join(',')).join('\n');
+
+/** Whether `widgetToCsv` has a table for this widget, without building it. */
+export const hasCsvExport = (widget: SmartWidgetData): boolean =>
+  (widget.type === 'comparison' && !!widget.comparisonData) ||
+  (widget.type === 'stats' && !!widget.statsData) ||
+  (widget.type === 'table' && !!widget.tableData) ||
+  (widget.type === 'chart' && !!widget.chartData);
+
+/** CSV for tabular widgets; null for widgets that have no sensible table form. */
+export const widgetToCsv = (widget: SmartWidgetData): string | null => {
+  if (widget.type === 'comparison' && widget.comparisonData) {
+    const { headers, rows } = widget.comparisonData;
+    return toCsv([headers, ...rows.map(r => [r.feature, ...r.values])]);
+  }
+  if (widget.type === 'stats' && widget.statsData) {
+    return toCsv([['Label', 'Value', 'Trend'], ...widget.statsData.map(s => [s.label, s.value, s.trend])]);
+  }
+  if (widget.type === 'table' && widget.tableData) {
+    return toCsv([widget.tableData.columns, ...widget.tableData.rows]);
+  }
+  if (widget.type === 'chart' && widget.chartData) {
+    const { labels, series } = widget.chartData;
+    return toCsv([['Label', ...series.map(s => s.name)], ...labels.map((label, i) => [label, ...series.map(s => s.values[i])])]);
+  }
+  return null;
+};
+
+export const widgetToJson = (widget: SmartWidgetData): string => JSON.stringify(widget, null, 2);
+
+// --- Markdown ---
+
+const mdCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const mdTable = (headers: string[], rows: string[][]) => [
+  `| ${headers.map(mdCell).join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(mdCell).join(' | ')} |`),
+].join('\n');
+
+const widgetBody = (widget: SmartWidgetData): string => {
+  switch (widget.type) {
+    case 'comparison':
+      return widget.comparisonData ? mdTable(widget.comparisonData.headers, widget.comparisonData.rows.map(r => [r.feature, ...r.values])) : '';
+    case 'table':
+      return widget.tableData ? mdTable(widget.tableData.columns, widget.tableData.rows) : '';
+    case 'stats':
+      return (widget.statsData || []).map(s => `- **${s.label}**: ${s.value}${s.trend ? ` (${s.trend})` : ''}`).join('\n');
+    case 'timeline':
+      return (widget.timelineData || []).map(e => `- **${e.year}** — ${e.title}${e.description ? `: ${e.description}` : ''}`).join('\n');
+    case 'chart':
+      return widget.chartData
+        ? mdTable(['', ...widget.chartData.series.map(s => s.name)], widget.chartData.labels.map((label, i) => [label, ...widget.chartData!.series.map(s => String(s.values[i]))]))
+        : '';
+    case 'graph': {
+      const nodes = new Map((widget.graphData?.nodes || []).map(n => [n.id, n.label]));
+      return (widget.graphData?.links || []).map(l => `- ${nodes.get(l.source)} → ${nodes.get(l.target)}${l.label ? ` (${l.label})` : ''}`).join('\n');
+    }
+    case 'map':
+      return (widget.mapData || []).map(l => `- **${l.name}** (${l.lat}, ${l.lng})${l.description ? ` — ${l.description}` : ''}`).join('\n');
+    case 'recipe': {
+      const recipe = widget.recipeData;
+      if (!recipe) return '';
+      return `**Ingredients**\n\n${recipe.ingredients.map(i => `- ${i}`).join('\n')}\n\n**Method**\n\n${recipe.steps.map((s, i) => `${i + 1}. ${s}`).join('\n')}`;
+    }
+    case 'weather': {
+      const weather = widget.weatherData;
+      if (!weather) return '';
+      const current = weather.current ? `Now: ${weather.current.temperature}°${weather.unit}, ${weather.current.condition}\n\n` : '';
+      return current + mdTable(['Day', 'Condition', 'High', 'Low'], weather.forecast.map(d => [d.day, d.condition, `${d.high}°`, `${d.low}°`]));
+    }
+    case 'code':
+      return widget.codeData ? `\`\`\`${widget.codeData.language}\n${widget.codeData.code}\n\`\`\`` : '';
+    default:
+      return '';
+  }
+};
+
+export const widgetToMarkdown = (widget: SmartWidgetData): string => {
+  const body = widgetBody(widget);
+  return widget.title ? `### ${widget.title}\n\n${body}` : body;
+};
+
+/** The whole thread as Markdown: each question with its overview, widget and sources. */
+export const threadToMarkdown = (thread: ChatMessage[]): string => {
+  const sections: string[] = [];
+  let turn = 0;
+
+  thread.forEach(message => {
+    if (message.role === 'user') {
+      sections.push(turn === 0 ? `# ${message.text}` : `## ${message.text}`);
+      turn++;
+      return;
+    }
+    sections.push(message.text);
+    if (message.widget) sections.push(widgetToMarkdown(message.widget));
+    if (message.sources && message.sources.length > 0) {
+      sections.push(`**Sources**\n\n${message.sources.map((s, i) => `${i + 1}. [${s.title}](${s.url})${s.siteName ? ` — ${s.siteName}` : ''}`).join('\n')}`);
+    }
+  });
+
+  return sections.join('\n\n') + '\n';
+};
+
+const formatClock = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/** A Companion conversation as Markdown: turns and tool calls in the order they happened, then sites. */
+export const companionSessionToMarkdown = (session: CompanionSession): string => {
+  const assistantName = session.assistantName || 'Alexis';
+  const events = [
+    ...session.turns.map(turn => ({
+      timestamp: turn.timestamp,
+      text: `**${turn.role === 'user' ? 'You' : assistantName}** (${formatClock(turn.timestamp)})${turn.hasFrame ? ' · with camera frame' : ''}\n\n${turn.text}`,
+    })),
+    ...session.toolCalls.map(call => ({
+      timestamp: call.timestamp,
+      text: `> ${call.summary}${call.error ? ` (failed: ${call.error})` : ''}`,
+    })),
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  const sections = [
+    `# ${session.title}`,
+    `_${new Date(session.startedAt).toLocaleString()}_`,
+    ...events.map(e => e.text),
+  ];
+  if (session.suggestedSites.length > 0) {
+    sections.push(`## Suggested sites\n\n${session.suggestedSites.map((s, i) => `${i + 1}. [${s.title}](${s.url})`).join('\n')}`);
+  }
+  return sections.join('\n\n') + '\n';
+};
+
+export const companionSessionToJson = (session: CompanionSession): string => JSON.stringify(session, null, 2);
+
+// --- SVG ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rough wrap by character count; SVG text has no native line breaking
+const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    if (line && (line + ' ' + word).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const SVG_FONT = `font-family="Inter, system-ui, sans-serif"`;
+const SVG_BACKGROUND = '#0f172a';
+
+const svgDocument = (width: number, height: number, body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ${SVG_FONT}>` +
+  `<rect width="100%" height="100%" fill="${SVG_BACKGROUND}"/>${body}</svg>`;
+
+const timelineToSvg = (widget: SmartWidgetData): SvgExport => {
+  const width = 760;
+  const events = widget.timelineData || [];
+  let y = 70;
+  const parts: string[] = [
+    `<text x="32" y="40" font-size="20" font-weight="700" fill="#a5b4fc">${escapeXml(widget.title || 'Timeline')}</text>`,
+  ];
+
+  events.forEach(event => {
+    const description = wrapText(event.description, 88);
+    const rowHeight = 56 + description.length * 18;
+    parts.push(
+      `<circle cx="44" cy="${y + 10}" r="7" fill="${SVG_BACKGROUND}" stroke="#6366f1" stroke-width="3"/>`,
+      `<text x="68" y="${y + 15}" font-size="13" font-weight="700" fill="#818cf8">${escapeXml(event.year)}</text>`,
+      `<text x="68" y="${y + 38}" font-size="16" font-weight="600" fill="#ffffff">${escapeXml(event.title)}</text>`,
+      ...description.map((line, i) => `<text x="68" y="${y + 60 + i * 18}" font-size="13" fill="#94a3b8">${escapeXml(line)}</text>`),
+    );
+    y += rowHeight;
+  });
+
+  const height = y + 20;
+  const axis = `<line x1="44" y1="70" x2="44" y2="${Math.max(y - 20, 80)}" stroke="#334155" stroke-width="2"/>`;
+  return { svg: svgDocument(width, height, axis + parts.join('')), width, height };
+};
+
+const graphToSvg = (widget: SmartWidgetData): SvgExport => {
+  const { nodes = [], links = [] } = widget.graphData || {};
+  const positions = layoutGraph(nodes, links);
+  const levels = computeGraphLevels(nodes, links);
+  const padding = 80;
+  const points = Array.from(positions.values());
+  const minX = Math.min(...points.map(p => p.x)) - padding;
+  const minY = Math.min(...points.map(p => p.y)) - padding;
+  const width = Math.round(Math.max(...points.map(p => p.x)) - minX + padding);
+  const height = Math.round(Math.max(...points.map(p => p.y)) - minY + padding) + 40;
+  const at = (id: string) => {
+    const p = positions.get(id) || { x: 0, y: 0 };
+    return { x: p.x - minX, y: p.y - minY + 40 };
+  };
+
+  const edges = links.map(link => {
+    const a = at(link.source);
+    const b = at(link.target);
+    const label = link.label
+      ? `<text x="${(a.x + b.x) / 2}" y="${(a.y + b.y) / 2}" font-size="10" fill="#94a3b8" text-anchor="middle" stroke="${SVG_BACKGROUND}" stroke-width="3" paint-order="stroke">${escapeXml(link.label)}</text>`
+      : '';
+    return `<line x1="${a.x}" y1="${a.y}" x2="${b.x}" y2="${b.y}" stroke="#4f46e5" stroke-opacity="0.6" stroke-width="1.5"/>${label}`;
+  });
+
+  const circles = nodes.map(node => {
+    const { x, y } = at(node.id);
+    const level = levels.get(node.id) ?? 1;
+    const r = [30, 20, 13][Math.min(level, 2)];
+    const fill = level === 0 ? '#6366f1' : level === 1 ? '#1e293b' : SVG_BACKGROUND;
+    const labelY = level === 0 ? y + 4 : y + r + 14;
+    return `<circle cx="${x}" cy="${y}" r="${r}" fill="${fill}" stroke="${level === 2 ? '#475569' : '#818cf8'}" stroke-width="1.5"/>` +
+      `<text x="${x}" y="${labelY}" font-size="${level === 0 ? 12 : 11}" font-weight="${level <= 1 ? 600 : 400}" fill="${level === 2 ? '#94a3b8' : '#e2e8f0'}" text-anchor="middle" stroke="${level === 0 ? 'none' : SVG_BACKGROUND}" stroke-width="3" paint-order="stroke">${escapeXml(node.label)}</text>`;
+  });
+
+  const title = `<text x="24" y="32" font-size="18" font-weight="700" fill="#a5b4fc">${escapeXml(widget.title || 'Knowledge Graph')}</text>`;
+  return { svg: svgDocument(width, height, title + edges.join('') + circles.join('')), width, height };
+};
+
+/** Whether `widgetToSvg` has an image for this widget, without laying it out. */
+export const hasSvgExport = (widget: SmartWidgetData): boolean =>
+  (widget.type === 'timeline' && !!widget.timelineData?.length) ||
+  (widget.type === 'graph' && !!widget.graphData?.nodes.length);
+
+/** Standalone SVG for visual widgets; null for widgets without an image export. */
+export const widgetToSvg = (widget: SmartWidgetData): SvgExport | null => {
+  if (!hasSvgExport(widget)) return null;
+  return widget.type === 'timeline' ? timelineToSvg(widget) : graphToSvg(widget);
+};
+
+// Rasterised at 2x so the PNG stays sharp on high-density screens
+export const svgToPng = ({ svg, width, height }: SvgExport, scale = 2): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    URL.revokeObjectURL(url);
+    if (!context) {
+      reject(new Error("Canvas not available"));
+      return;
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("PNG encoding failed")), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("Could not render SVG"));
+  };
+  image.src = url;
+});
+
+// --- Browser helpers ---
+
+export const downloadBlob = (filename: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, content: string, mimeType: string): void =>
+  downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+
+export const copyToClipboard = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (e) {
+    console.error("Clipboard write failed", e);
+    return false;
+  }
+};
@@ -0,0 +1,79 @@
+import { ComparisonData, ResultVertical, SearchResponse, VerticalResultMap } from "../types";
+import { SearchProvider, SearchStreamHandler } from "./searchProviders";
+import { SEARCH_FIXTURES, FALLBACK_FIXTURE, SUBGRAPH_FIXTURES, COMPARISON_ITEM_FIXTURES, SearchFixture } from "./fixtures/searchFixtures";
+
+const SIMULATED_LATENCY_MS = 400;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// Picks the recorded query sharing the most words with the user's query
+const findFixture = (query: string): SearchFixture | null => {
+  const queryTokens = new Set(tokenize(query));
+  let best: SearchFixture | null = null;
+  let bestScore = 0;
+
+  for (const fixture of SEARCH_FIXTURES) {
+    const fixtureTokens = tokenize(fixture.query);
+    const overlap = fixtureTokens.filter(t => queryTokens.has(t)).length;
+    const score = overlap / fixtureTokens.length;
+    if (score > bestScore) {
+      best = fixture;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= 0.5 ? best : null;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Hand out a copy so callers can mutate results without corrupting the recordings
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const cloneFixture = (query: string): SearchResponse =>
+  clone(findFixture(query)?.response || FALLBACK_FIXTURE);
+
+export const fixtureSearchProvider: SearchProvider = {
+  id: 'fixture',
+  label: 'Offline fixtures',
+  search: async (query: string) => {
+    await wait(SIMULATED_LATENCY_MS);
+    return cloneFixture(query);
+  },
+  // Replays the recorded overview a few words at a time, then the structured part
+  searchStream: async (query: string, onUpdate: SearchStreamHandler) => {
+    const response = cloneFixture(query);
+    await wait(SIMULATED_LATENCY_MS);
+
+    const words = response.text.split(/(?<=\s)/);
+    let text = '';
+    for (let i = 0; i < words.length; i += 3) {
+      text += words.slice(i, i + 3).join('');
+      onUpdate({ text });
+      await wait(STREAM_CHUNK_DELAY_MS);
+    }
+
+    onUpdate(response);
+    return response;
+  },
+  searchVertical: async <V extends ResultVertical>(vertical: V, query: string) => {
+    await wait(SIMULATED_LATENCY_MS);
+    const results = findFixture(query)?.verticals?.[vertical] as VerticalResultMap[V][] | undefined;
+    return clone(results || []);
+  },
+  // Unrecorded items (or no matching features) fail like Gemini does when it finds nothing
+  searchComparisonItem: async (item: string, data: ComparisonData) => {
+    await wait(SIMULATED_LATENCY_MS);
+    const recorded = COMPARISON_ITEM_FIXTURES[item.trim().toLowerCase()];
+    if (!recorded) return null;
+    const values = data.rows.map(row => recorded.values[row.feature] ?? '—');
+    return values.every(v => v === '—') ? null : { item: recorded.item, values };
+  },
+  searchSubgraph: async (label: string) => {
+    await wait(SIMULATED_LATENCY_MS);
+    const subgraph = SUBGRAPH_FIXTURES[label.trim().toLowerCase()];
+    return subgraph ? clone(subgraph) : null;
+  },
+};
@@ -0,0 +1,290 @@
+import { GraphData, ResultVertical, SearchResponse, VerticalResultMap } from "../../types";
+
+export interface SearchFixture {
+  query: string;
+  response: SearchResponse;
+  verticals?: { [K in ResultVertical]?: VerticalResultMap[K][] };
+}
+
+// Recorded payloads in the same shape the Gemini provider returns.
+// Used by the offline provider so WebMode and the widgets can be developed without an API key.
+export const SEARCH_FIXTURES: SearchFixture[] = [
+  {
+    query: "Pixel 9 vs iPhone 15",
+    response: {
+      text: "The **Pixel 9** and **iPhone 15** are both flagship phones, but they lean in different directions.\n\n- The Pixel 9 focuses on on-device AI features powered by the Tensor G4 chip and offers 7 years of OS updates.\n- The iPhone 15 brings USB-C, the Dynamic Island and the A16 Bionic chip, with tight integration into the Apple ecosystem.\n\nFor photography, both are excellent; the Pixel leans on computational processing while the iPhone produces more natural colour.",
+      sources: [
+        { title: "Pixel 9 vs iPhone 15: Which should you buy?", url: "https://www.theverge.com/pixel-9-vs-iphone-15", siteName: "The Verge", snippet: "We put Google's latest flagship against Apple's base model to see which phone wins on camera, battery and software.", date: "Aug 2024" },
+        { title: "Google Pixel 9 review", url: "https://www.gsmarena.com/google_pixel_9-review.php", siteName: "GSMArena", snippet: "The Pixel 9 brings a new design, a brighter display and the Tensor G4 chipset.", date: "Aug 2024" },
+        { title: "iPhone 15 - Technical Specifications", url: "https://support.apple.com/kb/SP901", siteName: "Apple Support", snippet: "Official specifications for iPhone 15 including display, chip, camera and battery details." },
+        { title: "Pixel 9 tech specs", url: "https://store.google.com/product/pixel_9_specs", siteName: "Google Store", snippet: "Full hardware specifications for the Google Pixel 9." },
+        { title: "Camera shootout: Pixel 9 vs iPhone 15", url: "https://www.dxomark.com/pixel-9-vs-iphone-15", siteName: "DXOMARK", snippet: "Side-by-side camera tests in daylight, low light and portrait modes.", date: "Sep 2024" },
+        { title: "Battery test results for 2024 flagships", url: "https://www.tomsguide.com/phones/battery-life-test", siteName: "Tom's Guide", snippet: "Our web surfing battery test measures how long phones last on a single charge.", date: "Oct 2024" }
+      ],
+      widget: {
+        type: "comparison",
+        title: "Pixel 9 vs iPhone 15",
+        comparisonData: {
+          headers: ["Feature", "Pixel 9", "iPhone 15"],
+          rows: [
+            { feature: "Chip", values: ["Tensor G4", "A16 Bionic"] },
+            { feature: "Display", values: ["6.3\" OLED, 120Hz", "6.1\" OLED, 60Hz"] },
+            { feature: "Main Camera", values: ["50MP", "48MP"] },
+            { feature: "Battery", values: ["4700 mAh", "3349 mAh"] },
+            { feature: "OS Updates", values: ["7 years", "~6 years"] },
+            { feature: "Launch Price", values: ["$799", "$799"] }
+          ]
+        }
+      },
+      citations: [
+        { text: "offers 7 years of OS updates.", sourceUrls: ["https://www.gsmarena.com/google_pixel_9-review.php", "https://store.google.com/product/pixel_9_specs"] },
+        { text: "with tight integration into the Apple ecosystem.", sourceUrls: ["https://support.apple.com/kb/SP901"] },
+        { text: "while the iPhone produces more natural colour.", sourceUrls: ["https://www.dxomark.com/pixel-9-vs-iphone-15", "https://www.theverge.com/pixel-9-vs-iphone-15"] }
+      ]
+    },
+    verticals: {
+      news: [
+        { title: "Google's Pixel 9 gets a new feature drop", url: "https://www.theverge.com/pixel-feature-drop", siteName: "The Verge", publisher: "The Verge", publishedAt: "2024-12-05", snippet: "The December update adds new camera and call screening features." },
+        { title: "iPhone 15 price cut ahead of the holidays", url: "https://www.cnet.com/iphone-15-price-cut", siteName: "CNET", publisher: "CNET", publishedAt: "2024-11-20", snippet: "Carriers are discounting last year's iPhone as the iPhone 16 settles in." },
+        { title: "Pixel 9 sales beat expectations", url: "https://www.reuters.com/technology/pixel-9-sales", siteName: "Reuters", publisher: "Reuters", publishedAt: "2024-10-29", snippet: "Alphabet said Pixel shipments grew strongly in the third quarter." }
+      ],
+      images: [
+        { title: "Pixel 9 in Obsidian", url: "https://picsum.photos/seed/pixel9/1200/900", thumbnailUrl: "https://picsum.photos/seed/pixel9/400/300", sourcePageUrl: "https://store.google.com/product/pixel_9", siteName: "store.google.com" },
+        { title: "iPhone 15 in Blue", url: "https://picsum.photos/seed/iphone15/1200/900", thumbnailUrl: "https://picsum.photos/seed/iphone15/400/300", sourcePageUrl: "https://www.apple.com/iphone-15", siteName: "apple.com" },
+        { title: "Side by side comparison", url: "https://picsum.photos/seed/compare/1200/900", thumbnailUrl: "https://picsum.photos/seed/compare/400/300", sourcePageUrl: "https://www.theverge.com/pixel-9-vs-iphone-15", siteName: "theverge.com" }
+      ],
+      videos: [
+        { title: "Pixel 9 vs iPhone 15 - Ultimate Camera Test", url: "https://www.youtube.com/watch?v=pixel9iphone15", siteName: "YouTube", channel: "MKBHD", duration: "14:32", date: "Sep 2024", snippet: "Blind camera comparison across 20 scenes." },
+        { title: "Which phone should you buy in 2024?", url: "https://www.youtube.com/watch?v=buyersguide24", siteName: "YouTube", channel: "Mrwhosetheboss", duration: "18:05", date: "Oct 2024", snippet: "A buyer's guide covering every price range." }
+      ],
+      shopping: [
+        { title: "Google Pixel 9 128GB Obsidian", url: "https://store.google.com/product/pixel_9", siteName: "Google Store", price: "$799.00", merchant: "Google Store", rating: 4.6, snippet: "Unlocked, 12GB RAM." },
+        { title: "Apple iPhone 15 128GB Black", url: "https://www.apple.com/shop/buy-iphone/iphone-15", siteName: "Apple", price: "$699.00", merchant: "Apple", rating: 4.7, snippet: "Unlocked, USB-C." },
+        { title: "Google Pixel 9 256GB (Renewed)", url: "https://www.amazon.com/dp/pixel9renewed", siteName: "Amazon", price: "$589.99", merchant: "Amazon", rating: 4.2, snippet: "Certified refurbished, 90-day warranty." }
+      ]
+    }
+  },
+  {
+    query: "History of Artificial Intelligence",
+    response: {
+      text: "Artificial intelligence grew from a 1950s research agenda into a general-purpose technology.\n\nEarly symbolic systems gave way to **machine learning**, and the deep learning wave of the 2010s led to today's **large language models**.",
+      sources: [
+        { title: "History of artificial intelligence", url: "https://en.wikipedia.org/wiki/History_of_artificial_intelligence", siteName: "Wikipedia", snippet: "The history of AI began in antiquity with myths of artificial beings; the modern field was founded in 1956." },
+        { title: "The Dartmouth Workshop", url: "https://home.dartmouth.edu/about/artificial-intelligence-ai-coined-dartmouth", siteName: "Dartmouth", snippet: "The term artificial intelligence was coined at a 1956 summer research project at Dartmouth." },
+        { title: "A brief history of AI", url: "https://www.britannica.com/technology/artificial-intelligence/history", siteName: "Britannica", snippet: "An overview of milestones from Turing's test to modern neural networks." },
+        { title: "ImageNet and the deep learning revolution", url: "https://www.technologyreview.com/imagenet-deep-learning", siteName: "MIT Technology Review", snippet: "How a 2012 image classification result changed the direction of AI research.", date: "2022" },
+        { title: "Attention Is All You Need", url: "https://arxiv.org/abs/1706.03762", siteName: "arXiv", snippet: "The paper that introduced the Transformer architecture.", date: "Jun 2017" },
+        { title: "AI timeline", url: "https://ourworldindata.org/brief-history-of-ai", siteName: "Our World in Data", snippet: "Charts tracing the growth of AI capabilities over seven decades." }
+      ],
+      widget: {
+        type: "timeline",
+        title: "Milestones in AI",
+        timelineData: [
+          { year: "1950", title: "Turing Test", description: "Alan Turing proposes a test for machine intelligence." },
+          { year: "1956", title: "Dartmouth Workshop", description: "The field of AI is formally founded." },
+          { year: "1997", title: "Deep Blue", description: "IBM's Deep Blue defeats chess champion Garry Kasparov." },
+          { year: "2012", title: "AlexNet", description: "Deep learning wins the ImageNet competition by a wide margin." },
+          { year: "2017", title: "Transformers", description: "The Transformer architecture is introduced." },
+          { year: "2022", title: "ChatGPT", description: "Large language models reach a mass audience." }
+        ]
+      }
+    }
+  },
+  {
+    query: "Tesla Stock Performance",
+    response: {
+      text: "Tesla (**TSLA**) remains one of the most volatile large-cap stocks. Recent performance has been driven by delivery numbers, margins and expectations around autonomy.",
+      sources: [
+        { title: "TSLA stock quote", url: "https://finance.yahoo.com/quote/TSLA", siteName: "Yahoo Finance", snippet: "Real-time price, history and news for Tesla, Inc." },
+        { title: "Tesla Investor Relations", url: "https://ir.tesla.com", siteName: "Tesla", snippet: "Quarterly updates, SEC filings and shareholder information." },
+        { title: "Tesla shares after earnings", url: "https://www.reuters.com/business/autos-transportation/tesla-earnings", siteName: "Reuters", snippet: "Shares moved after the company reported quarterly results.", date: "Oct 2024" },
+        { title: "TSLA analyst ratings", url: "https://www.marketwatch.com/investing/stock/tsla/analystestimates", siteName: "MarketWatch", snippet: "Consensus price targets and ratings from Wall Street analysts." },
+        { title: "Tesla vehicle deliveries", url: "https://www.cnbc.com/tesla-deliveries", siteName: "CNBC", snippet: "Tesla reported quarterly deliveries in line with estimates.", date: "Oct 2024" },
+        { title: "Tesla, Inc. (TSLA) statistics", url: "https://www.macrotrends.net/stocks/charts/TSLA/tesla/market-cap", siteName: "Macrotrends", snippet: "Historical market capitalisation and valuation metrics." }
+      ],
+      widget: {
+        type: "stats",
+        title: "TSLA at a glance",
+        statsData: [
+          { label: "Market Cap", value: "$780B", trend: "up" },
+          { label: "P/E Ratio", value: "68", trend: "neutral" },
+          { label: "52W Change", value: "+12%", trend: "up" },
+          { label: "Gross Margin", value: "17.9%", trend: "down" }
+        ]
+      }
+    }
+  },
+  {
+    query: "How does Blockchain work",
+    response: {
+      text: "A **blockchain** is a shared ledger made of blocks, each holding a batch of transactions and the hash of the previous block.\n\nNodes agree on the next block through a **consensus mechanism** such as proof of work or proof of stake, which makes past records very hard to alter.",
+      sources: [
+        { title: "What is blockchain?", url: "https://www.ibm.com/topics/blockchain", siteName: "IBM", snippet: "Blockchain is a shared, immutable ledger for recording transactions and tracking assets." },
+        { title: "Blockchain", url: "https://en.wikipedia.org/wiki/Blockchain", siteName: "Wikipedia", snippet: "A blockchain is a distributed ledger with growing lists of records securely linked together via cryptographic hashes." },
+        { title: "Bitcoin: A Peer-to-Peer Electronic Cash System", url: "https://bitcoin.org/bitcoin.pdf", siteName: "bitcoin.org", snippet: "The original whitepaper describing a chain of proof-of-work blocks.", date: "2008" },
+        { title: "Proof of stake explained", url: "https://ethereum.org/en/developers/docs/consensus-mechanisms/pos", siteName: "ethereum.org", snippet: "How validators stake ETH to propose and attest to blocks." },
+        { title: "How blockchain works - explained simply", url: "https://www.investopedia.com/terms/b/blockchain.asp", siteName: "Investopedia", snippet: "A plain-language guide to blocks, hashes and consensus." },
+        { title: "Merkle trees", url: "https://brilliant.org/wiki/merkle-tree", siteName: "Brilliant", snippet: "The data structure blockchains use to summarise transactions in a block." }
+      ],
+      widget: {
+        type: "graph",
+        title: "Blockchain concepts",
+        graphData: {
+          nodes: [
+            { id: "1", label: "Blockchain", type: "main" },
+            { id: "2", label: "Blocks", type: "sub" },
+            { id: "3", label: "Hashing", type: "sub" },
+            { id: "4", label: "Consensus", type: "sub" },
+            { id: "5", label: "Nodes", type: "sub" },
+            { id: "6", label: "Smart Contracts", type: "sub" }
+          ],
+          links: [
+            { source: "1", target: "2", label: "made of" },
+            { source: "1", target: "3", label: "secured by" },
+            { source: "1", target: "4", label: "agrees via" },
+            { source: "1", target: "5", label: "run by" },
+            { source: "1", target: "6", label: "hosts" },
+            { source: "2", target: "3", label: "linked by" },
+            { source: "4", target: "5", label: "performed by" }
+          ]
+        }
+      }
+    }
+  },
+  {
+    query: "Apple revenue by year",
+    response: {
+      text: "Apple's annual revenue grew from **$274.5B** in fiscal 2020 to a peak of **$394.3B** in 2022, dipped slightly in 2023 and recovered to **$391.0B** in 2024. iPhone remains roughly half of the total, with Services the fastest-growing segment.",
+      sources: [
+        { title: "Apple Investor Relations", url: "https://investor.apple.com", siteName: "Apple", snippet: "Annual reports, 10-K filings and quarterly results." },
+        { title: "Apple revenue 2010-2024", url: "https://www.macrotrends.net/stocks/charts/AAPL/apple/revenue", siteName: "Macrotrends", snippet: "Historical annual and quarterly revenue for Apple." },
+        { title: "Apple reports fourth quarter results", url: "https://www.apple.com/newsroom/2024/10/apple-reports-fourth-quarter-results", siteName: "Apple Newsroom", snippet: "Revenue of $94.9 billion for the September quarter.", date: "Oct 2024" }
+      ],
+      widget: {
+        type: "chart",
+        title: "Apple revenue by fiscal year",
+        chartData: {
+          kind: "bar",
+          labels: ["2020", "2021", "2022", "2023", "2024"],
+          series: [
+            { name: "Total", values: [274.5, 365.8, 394.3, 383.3, 391.0] },
+            { name: "iPhone", values: [137.8, 191.9, 205.5, 200.6, 201.2] },
+            { name: "Services", values: [53.8, 68.4, 78.1, 85.2, 96.2] }
+          ],
+          unit: "$B"
+        }
+      }
+    }
+  },
+  {
+    query: "Weather in London this week",
+    response: {
+      text: "Expect a **mild, unsettled week** in London: cloud with occasional light rain early on, turning brighter and drier from Thursday. Highs stay in the mid-teens.",
+      sources: [
+        { title: "London weather forecast", url: "https://www.metoffice.gov.uk/weather/forecast/gcpvj0v07", siteName: "Met Office", snippet: "Hourly and 7 day forecast for London." },
+        { title: "London, Greater London weather", url: "https://www.bbc.co.uk/weather/2643743", siteName: "BBC Weather", snippet: "14-day forecast, observations and weather warnings." },
+        { title: "London 10-day weather", url: "https://weather.com/weather/tenday/l/London+England", siteName: "weather.com", snippet: "Daily highs, lows and chance of rain." }
+      ],
+      widget: {
+        type: "weather",
+        title: "London this week",
+        weatherData: {
+          location: "London, UK",
+          unit: "C",
+          current: { temperature: 14, condition: "Cloudy", humidity: 72, wind: "14 km/h SW" },
+          forecast: [
+            { day: "Mon", condition: "Light rain", high: 15, low: 10, precipitation: 60 },
+            { day: "Tue", condition: "Showers", high: 14, low: 9, precipitation: 70 },
+            { day: "Wed", condition: "Cloudy", high: 15, low: 8, precipitation: 20 },
+            { day: "Thu", condition: "Sunny intervals", high: 17, low: 8, precipitation: 5 },
+            { day: "Fri", condition: "Sunny", high: 18, low: 9, precipitation: 0 }
+          ]
+        }
+      }
+    }
+  }
+];
+
+// Returned when no recorded query is close enough
+export const FALLBACK_FIXTURE: SearchResponse = {
+  text: "This is an **offline fixture** response. No recorded result matched your query, so here is a placeholder overview.\n\nSwitch the search provider back to Gemini for live results.",
+  sources: [
+    { title: "Example Domain", url: "https://example.com", siteName: "example.com", snippet: "This domain is for use in illustrative examples in documents." },
+    { title: "MDN Web Docs", url: "https://developer.mozilla.org", siteName: "MDN", snippet: "Resources for developers, by developers." }
+  ]
+};
+
+// Drill-down subgraphs for the recorded graph widgets, keyed by node label
+export const SUBGRAPH_FIXTURES: Record<string, GraphData> = {
+  consensus: {
+    nodes: [
+      { id: "1", label: "Consensus", type: "main" },
+      { id: "2", label: "Proof of Work", type: "sub" },
+      { id: "3", label: "Proof of Stake", type: "sub" },
+      { id: "4", label: "Validators", type: "sub" },
+      { id: "5", label: "Mining", type: "sub" },
+      { id: "6", label: "Nodes", type: "sub" }
+    ],
+    links: [
+      { source: "1", target: "2", label: "e.g." },
+      { source: "1", target: "3", label: "e.g." },
+      { source: "3", target: "4", label: "relies on" },
+      { source: "2", target: "5", label: "done by" },
+      { source: "4", target: "6", label: "run as" }
+    ]
+  },
+  hashing: {
+    nodes: [
+      { id: "1", label: "Hashing", type: "main" },
+      { id: "2", label: "SHA-256", type: "sub" },
+      { id: "3", label: "Merkle Trees", type: "sub" },
+      { id: "4", label: "Block Header", type: "sub" }
+    ],
+    links: [
+      { source: "1", target: "2", label: "uses" },
+      { source: "1", target: "3", label: "builds" },
+      { source: "3", target: "4", label: "root stored in" }
+    ]
+  },
+  "smart contracts": {
+    nodes: [
+      { id: "1", label: "Smart Contracts", type: "main" },
+      { id: "2", label: "Ethereum", type: "sub" },
+      { id: "3", label: "Solidity", type: "sub" },
+      { id: "4", label: "DeFi", type: "sub" },
+      { id: "5", label: "Gas Fees", type: "sub" }
+    ],
+    links: [
+      { source: "1", target: "2", label: "run on" },
+      { source: "1", target: "3", label: "written in" },
+      { source: "1", target: "4", label: "power" },
+      { source: "1", target: "5", label: "cost" }
+    ]
+  }
+};
+
+// Extra comparison columns for the recorded comparison widgets, keyed by item, then by feature
+export const COMPARISON_ITEM_FIXTURES: Record<string, { item: string; values: Record<string, string> }> = {
+  "galaxy s24": {
+    item: "Galaxy S24",
+    values: {
+      "Chip": "Snapdragon 8 Gen 3",
+      "Display": "6.2\" OLED, 120Hz",
+      "Main Camera": "50MP",
+      "Battery": "4000 mAh",
+      "OS Updates": "7 years",
+      "Launch Price": "$799"
+    }
+  },
+  "iphone 16": {
+    item: "iPhone 16",
+    values: {
+      "Chip": "A18",
+      "Display": "6.1\" OLED, 60Hz",
+      "Main Camera": "48MP",
+      "Battery": "3561 mAh",
+      "OS Updates": "~6 years",
+      "Launch Price": "$799"
+    }
+  }
+};
@@ -1,20 +1,32 @@
-import { GoogleGenAI } from "@google/genai";
-import { SearchResult, SmartWidgetData } from "../types";
+import { Content, GoogleGenAI, GroundingMetadata } from "@google/genai";
+import { ComparisonData, GraphData, LocaleSettings, ResultVertical, SearchResponse, SearchResult, SmartWidgetData, VerticalResultMap } from "../types";
+import { SearchOptions, SearchProvider, SearchStreamHandler, registerSearchProvider, getActiveSearchProvider } from "./searchProviders";
+import { fixtureSearchProvider } from "./fixtureSearchProvider";
+import { ComparisonItemPayload, parseComparisonItemPayload, parseSearchPayload, parseSubgraphPayload, parseVerticalPayload, stripJsonBlock, validateSearchResult, validateSearchResponse, validateVerticalResults } from "./searchValidation";
+import { buildSearchCacheKey, hasSearchResults, withSearchCache } from "./searchCache";
+import { buildVerticalPrompt } from "./verticals";
+import { buildComparisonItemPrompt } from "./comparison";
+import { buildSubgraphPrompt } from "./graphExplorer";
+import { describeWidgetFormats } from "./widgetRegistry";
+import { buildCitations } from "./citations";
+import { getLanguageName, getRegionName } from "./locale";
+import { applyQueryFilters, describeConstraints, filterResults, parseQuery } from "./queryParser";
 
-export const performWebSearch = async (query: string): Promise<{ text: string; sources: SearchResult[]; widget?: SmartWidgetData }> => {
-  try {
-    const apiKey = process.env.API_KEY || '';
-    if (!apiKey) {
-        console.error("API Key missing for web search");
-        return { text: "I cannot search without an API key.", sources: [] };
-    }
+const SEARCH_MODEL = "gemini-2.5-flash";
 
-    const ai = new GoogleGenAI({ apiKey });
+const ORGANIC_RESULT_FORMAT = `{
+          "title": "Page Title",
+          "url": "https://example.com",
+          "siteName": "Example.com",
+          "snippet": "A brief 2 sentence description...",
+          "date": "Oct 2023" (optional)
+        }`;
 
-    // Enhanced prompt to extract structured data AND organic results
-    const systemPrompt = `
+// Enhanced prompt to extract structured data AND organic results.
+// Built per request so widgets registered after this module loads are included.
+const buildSearchPrompt = () => `
     You are an advanced search engine AI.
-    
+
     TASK:
     1. Perform a search for the user's query.
     2. Generate an "AI Overview" summary of the answer.
@@ -22,87 +34,353 @@ export const performWebSearch = async (query: string): Promise<{ text: string; s
     4. Detect if a smart widget (Comparison, Timeline, etc.) is needed.
 
     OUTPUT FORMAT:
-    You must return a JSON object wrapped in \`\`\`json ... \`\`\`. 
-    
+    You must return a JSON object wrapped in \`\`\`json ... \`\`\`.
+
     The JSON structure must be:
     {
       "aiOverview": "The markdown formatted summary text...",
       "organicResults": [
-        { 
-          "title": "Page Title", 
-          "url": "https://example.com", 
-          "siteName": "Example.com", 
-          "snippet": "A brief 2 sentence description...", 
-          "date": "Oct 2023" (optional)
-        }
+        ${ORGANIC_RESULT_FORMAT}
       ],
       "widget": { ... } (Optional)
     }
+${describeWidgetFormats()}
 
-    WIDGET FORMATS (populate "widget" field if applicable):
-    - Comparison: { "type": "comparison", "title": "...", "comparisonData": { "headers": ["Feature", "A", "B"], "rows": [{ "feature": "Price", "values": ["$1", "$2"] }] } }
-    - Timeline: { "type": "timeline", "title": "...", "timelineData": [{ "year": "2020", "title": "...", "description": "..." }] }
-    - Stats: { "type": "stats", "title": "...", "statsData": [{ "label": "GDP", "value": "$1T", "trend": "up" }] }
-    - Graph: { "type": "graph", "title": "...", "graphData": { "nodes": [{"id":"1", "label":"Main", "type":"main"}], "links": [] } }
-
-    CRITICAL: 
+    CRITICAL:
     - Ensure 'organicResults' has at least 6 high quality items.
     - The 'aiOverview' should be concise but informative (Markdown supported).
     `;
 
+// Streaming contract: overview first as plain Markdown so it can render while the JSON is still being written
+const buildStreamingSearchPrompt = () => `
+    You are an advanced search engine AI.
+
+    TASK:
+    1. Perform a search for the user's query.
+    2. Write an "AI Overview" summary of the answer.
+    3. Construct a list of "Organic Search Results" based on the grounding info you found.
+    4. Detect if a smart widget (Comparison, Timeline, etc.) is needed.
+
+    OUTPUT FORMAT:
+    First write the AI Overview as plain Markdown (no heading, no code fences).
+    Then, on a new line, write a JSON object wrapped in \`\`\`json ... \`\`\` and nothing after it.
+
+    The JSON structure must be:
+    {
+      "organicResults": [
+        ${ORGANIC_RESULT_FORMAT}
+      ],
+      "widget": { ... } (Optional)
+    }
+${describeWidgetFormats()}
+
+    CRITICAL:
+    - Ensure 'organicResults' has at least 6 high quality items.
+    - The overview should be concise but informative.
+    `;
+
+const FOLLOW_UP_NOTE = `
+    CONTEXT:
+    The earlier turns of this conversation are above. Treat the query as a follow-up question:
+    resolve references like "it" or "the second one" from those turns and do not repeat what was already said.
+    `;
+
+// Earlier turns go in as chat history; the contract and query always ride on the final user turn
+// JSON keys stay in English so the contract still parses
+const localeNote = ({ region, answerLanguage }: LocaleSettings) => `
+    LOCALE:
+    - Prefer sources and results relevant to ${getRegionName(region)} (region ${region}).
+    - Write the overview, result titles and snippets in ${getLanguageName(answerLanguage)}, translating where needed.
+    `;
+
+// Operators are spelled out as constraints and stripped from the query text itself
+const buildContents = (prompt: string, query: string, { history = [], parsedQuery, locale }: SearchOptions = {}): Content[] => {
+  const turns: Content[] = history.map(message => ({
+    role: message.role,
+    parts: [{ text: message.role === 'user' ? `User Query: ${message.text}` : message.text }],
+  }));
+  const constraints = parsedQuery ? describeConstraints(parsedQuery) : '';
+  const instructions = `${prompt}${constraints}${locale ? localeNote(locale) : ''}${turns.length > 0 ? FOLLOW_UP_NOTE : ''}`;
+  const queryText = parsedQuery?.text || query;
+  return [...turns, { role: 'user', parts: [{ text: `${instructions}\n\nUser Query: ${queryText}` }] }];
+};
+
+const getClient = (): GoogleGenAI | null => {
+  const apiKey = process.env.API_KEY || '';
+  if (!apiKey) {
+      console.error("API Key missing for web search");
+      return null;
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Fallback if model didn't output usable results
+const sourcesFromGrounding = (metadata?: GroundingMetadata): SearchResult[] => {
+  const chunks = metadata?.groundingChunks || [];
+  return chunks
+    .map((chunk, i) => chunk.web
+      ? validateSearchResult({
+          title: chunk.web.title || "Web Result",
+          url: chunk.web.uri,
+          snippet: "Source found via Google Search grounding."
+        }, `groundingChunks[${i}]`, [])
+      : null)
+    .filter((s): s is SearchResult => s !== null);
+};
+
+const searchWithGemini = async (query: string, options?: SearchOptions): Promise<SearchResponse> => {
+  try {
+    const ai = getClient();
+    if (!ai) {
+        return { text: "I cannot search without an API key.", sources: [] };
+    }
+
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `${systemPrompt}\n\nUser Query: ${query}`,
+      model: SEARCH_MODEL,
+      contents: buildContents(buildSearchPrompt(), query, options),
       config: {
         tools: [{ googleSearch: {} }],
+        abortSignal: options?.signal,
       },
     });
 
     const rawText = response.text || "";
-    let parsedData: any = {};
     let text = rawText;
     let sources: SearchResult[] = [];
     let widget: SmartWidgetData | undefined = undefined;
 
-    // Extract JSON widget data if present
-    const jsonMatch = rawText.match(/```json\n([\s\S]*?)\n```/);
-    if (jsonMatch && jsonMatch[1]) {
-      try {
-        parsedData = JSON.parse(jsonMatch[1]);
-        
-        text = parsedData.aiOverview || "Here is what I found.";
-        widget = parsedData.widget;
-        
-        if (parsedData.organicResults && Array.isArray(parsedData.organicResults)) {
-            sources = parsedData.organicResults;
-        }
-
-      } catch (e) {
-        console.error("Failed to parse search JSON", e);
-        // Fallback: use raw text if JSON parsing fails, but strip the code block
-        text = rawText.replace(/```json\n[\s\S]*?\n```/, '').trim();
-      }
+    // Extract and validate the structured JSON block if present
+    const parsed = parseSearchPayload(rawText);
+    if (parsed) {
+      text = parsed.text || "Here is what I found.";
+      sources = parsed.sources;
+      widget = parsed.widget;
     } else {
-       // Fallback if model didn't output JSON
-       const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-       sources = chunks
-        .map((chunk): SearchResult | null => {
-            if (chunk.web) {
-            return {
-                title: chunk.web.title || "Web Result",
-                url: chunk.web.uri || "#",
-                siteName: new URL(chunk.web.uri || "http://web").hostname,
-                snippet: "Source found via Google Search grounding."
-            };
-            }
-            return null;
-        })
-        .filter((s): s is SearchResult => s !== null);
+      // Fallback: use raw text, but strip any broken code block
+      text = stripJsonBlock(rawText) || "Here is what I found.";
+    }
+
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    if (sources.length === 0) {
+      sources = sourcesFromGrounding(groundingMetadata);
     }
 
-    return { text, sources, widget };
+    const cited = buildCitations(groundingMetadata, sources);
+    return { text, sources: cited.sources, widget, citations: cited.citations };
   } catch (error) {
+    if (options?.signal?.aborted) throw error;
     console.error("Search failed:", error);
     return { text: "Sorry, I encountered an error while searching.", sources: [] };
   }
-};
\ No newline at end of file
+};
+
+// Overview is everything before the JSON fence; hide a partially streamed fence marker
+const overviewFromStream = (rawText: string): string => {
+  const fenceIndex = rawText.indexOf('```');
+  const overview = fenceIndex === -1 ? rawText.replace(/`{1,2}$/, '') : rawText.slice(0, fenceIndex);
+  return overview.trim();
+};
+
+const searchWithGeminiStream = async (query: string, onUpdate: SearchStreamHandler, options?: SearchOptions): Promise<SearchResponse> => {
+  try {
+    const ai = getClient();
+    if (!ai) {
+        return { text: "I cannot search without an API key.", sources: [] };
+    }
+
+    const stream = await ai.models.generateContentStream({
+      model: SEARCH_MODEL,
+      contents: buildContents(buildStreamingSearchPrompt(), query, options),
+      config: {
+        tools: [{ googleSearch: {} }],
+        abortSignal: options?.signal,
+      },
+    });
+
+    let rawText = "";
+    let groundingMetadata: GroundingMetadata | undefined;
+    let structured: SearchResponse | null = null;
+    const groundingSupports: NonNullable<GroundingMetadata['groundingSupports']> = [];
+
+    for await (const chunk of stream) {
+      rawText += chunk.text || "";
+      const chunkMetadata = chunk.candidates?.[0]?.groundingMetadata;
+      if (chunkMetadata) {
+        groundingMetadata = { ...groundingMetadata, ...chunkMetadata };
+        // Supports can be split across chunks; chunk lists arrive whole
+        groundingSupports.push(...(chunkMetadata.groundingSupports || []));
+      }
+
+      // Structured part is complete once the closing fence arrives
+      if (!structured && /```json[\s\S]*?```/i.test(rawText)) {
+        structured = parseSearchPayload(rawText, { expectOverview: false });
+        onUpdate({ text: overviewFromStream(rawText), sources: structured?.sources, widget: structured?.widget });
+      } else if (!structured) {
+        onUpdate({ text: overviewFromStream(rawText) });
+      }
+    }
+
+    const text = overviewFromStream(rawText) || "Here is what I found.";
+    const parsed = structured || parseSearchPayload(rawText, { expectOverview: false });
+    let sources = parsed?.sources || [];
+    if (sources.length === 0) {
+      sources = sourcesFromGrounding(groundingMetadata);
+    }
+
+    const cited = buildCitations(groundingMetadata && { ...groundingMetadata, groundingSupports }, sources);
+    return { text, sources: cited.sources, widget: parsed?.widget, citations: cited.citations };
+  } catch (error) {
+    if (options?.signal?.aborted) throw error;
+    console.error("Streaming search failed:", error);
+    return { text: "Sorry, I encountered an error while searching.", sources: [] };
+  }
+};
+
+const searchVerticalWithGemini = async <V extends ResultVertical>(vertical: V, query: string, options?: SearchOptions): Promise<VerticalResultMap[V][]> => {
+  try {
+    const ai = getClient();
+    if (!ai) return [];
+
+    const response = await ai.models.generateContent({
+      model: SEARCH_MODEL,
+      contents: buildContents(buildVerticalPrompt(vertical), query, options),
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+
+    return parseVerticalPayload(vertical, response.text || "");
+  } catch (error) {
+    console.error(`${vertical} search failed:`, error);
+    return [];
+  }
+};
+
+const searchComparisonItemWithGemini = async (item: string, data: ComparisonData, options?: SearchOptions): Promise<ComparisonItemPayload | null> => {
+  try {
+    const ai = getClient();
+    if (!ai) return null;
+
+    const response = await ai.models.generateContent({
+      model: SEARCH_MODEL,
+      contents: buildContents(buildComparisonItemPrompt(item, data), item, options),
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+
+    return parseComparisonItemPayload(response.text || "", data, item);
+  } catch (error) {
+    console.error("Comparison item search failed:", error);
+    return null;
+  }
+};
+
+const searchSubgraphWithGemini = async (label: string, graph: GraphData, options?: SearchOptions): Promise<GraphData | null> => {
+  try {
+    const ai = getClient();
+    if (!ai) return null;
+
+    const response = await ai.models.generateContent({
+      model: SEARCH_MODEL,
+      contents: buildContents(buildSubgraphPrompt(label, graph), label, options),
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+
+    return parseSubgraphPayload(response.text || "");
+  } catch (error) {
+    console.error("Subgraph search failed:", error);
+    return null;
+  }
+};
+
+export const geminiSearchProvider: SearchProvider = {
+  id: 'gemini',
+  label: 'Gemini (Google Search)',
+  search: searchWithGemini,
+  searchStream: searchWithGeminiStream,
+  searchVertical: searchVerticalWithGemini,
+  searchComparisonItem: searchComparisonItemWithGemini,
+  searchSubgraph: searchSubgraphWithGemini,
+};
+
+registerSearchProvider(geminiSearchProvider);
+registerSearchProvider(fixtureSearchProvider);
+
+// Results differ per region and answer language, so they get their own cache entries
+const cacheScope = (providerId: string, { locale }: SearchOptions) =>
+  locale ? `${providerId}@${locale.region}:${locale.answerLanguage}` : providerId;
+
+export const performWebSearch = (query: string, options: SearchOptions = {}): Promise<SearchResponse> => {
+  const provider = getActiveSearchProvider();
+  const key = buildSearchCacheKey(cacheScope(provider.id, options), query, options.history);
+  // Operators are parsed once here so every provider sees the same structured query
+  const parsedQuery = parseQuery(query);
+  return withSearchCache(key, async () => {
+    const response = await provider.search(query, { ...options, parsedQuery });
+    return applyQueryFilters(validateSearchResponse(response, `${provider.id} response`), parsedQuery);
+  }, { ...options, isCacheable: hasSearchResults });
+};
+
+/**
+ * Streams the overview through `onUpdate` as it is generated, then resolves with the
+ * validated final response. Cached or shared in-flight results, and providers without
+ * streaming support, emit once at the end.
+ */
+export const performWebSearchStream = async (query: string, onUpdate: SearchStreamHandler, options: SearchOptions = {}): Promise<SearchResponse> => {
+  const provider = getActiveSearchProvider();
+  const key = buildSearchCacheKey(cacheScope(provider.id, options), query, options.history);
+  const parsedQuery = parseQuery(query);
+  const searchOptions = { ...options, parsedQuery };
+  let didStream = false;
+
+  // Partial sources are filtered too, so excluded results never flash on screen
+  const onFilteredUpdate: SearchStreamHandler = partial =>
+    onUpdate(partial.sources ? { ...partial, sources: filterResults(partial.sources, parsedQuery) } : partial);
+
+  const response = await withSearchCache(key, async () => {
+    didStream = true;
+    const raw = provider.searchStream
+      ? await provider.searchStream(query, onFilteredUpdate, searchOptions)
+      : await provider.search(query, searchOptions);
+    return applyQueryFilters(validateSearchResponse(raw, `${provider.id} response`), parsedQuery);
+  }, { ...options, isCacheable: hasSearchResults });
+
+  if (!didStream) onUpdate(response);
+  return response;
+};
+
+/** Searches one results vertical (news, images, ...). Shares the result cache with the main search. */
+export const performVerticalSearch = <V extends ResultVertical>(vertical: V, query: string, options: SearchOptions = {}): Promise<VerticalResultMap[V][]> => {
+  const provider = getActiveSearchProvider();
+  if (!provider.searchVertical) return Promise.resolve([]);
+
+  const key = buildSearchCacheKey(`${cacheScope(provider.id, options)}:${vertical}`, query, options.history);
+  const parsedQuery = parseQuery(query);
+  return withSearchCache(key, async () => {
+    const results = await provider.searchVertical!(vertical, query, { ...options, parsedQuery });
+    return filterResults(validateVerticalResults(vertical, results, `${provider.id} ${vertical} results`), parsedQuery);
+  }, { ...options, isCacheable: results => results.length > 0 });
+};
+
+/** Looks up one more item for an existing comparison table. Resolves null if it could not be filled. */
+export const performComparisonItemSearch = async (item: string, data: ComparisonData, options: SearchOptions = {}): Promise<ComparisonItemPayload | null> => {
+  const provider = getActiveSearchProvider();
+  if (!provider.searchComparisonItem) return null;
+  return provider.searchComparisonItem(item, data, options);
+};
+
+/**
+ * Fetches the concepts around one node of a knowledge graph. Cached per graph topic,
+ * so collapsing and re-expanding a node doesn't ask the model again.
+ */
+export const performSubgraphSearch = (label: string, graph: GraphData, options: SearchOptions = {}): Promise<GraphData | null> => {
+  const provider = getActiveSearchProvider();
+  if (!provider.searchSubgraph) return Promise.resolve(null);
+
+  const root = graph.nodes.find(n => n.type === 'main') || graph.nodes[0];
+  const key = buildSearchCacheKey(`${cacheScope(provider.id, options)}:subgraph:${root?.label || ''}`, label, options.history);
+  return withSearchCache(key, () => provider.searchSubgraph!(label, graph, options), { ...options, isCacheable: result => result !== null });
+};
@@ -0,0 +1,102 @@
+import { GraphData, GraphLink, GraphNode } from "../types";
+
+const MAX_KNOWN_LABELS = 40;
+
+/** One drill-down step: the nodes and links a node's subgraph added to the graph. */
+export interface GraphExpansion {
+  nodeId: string;
+  label: string;
+  nodes: GraphNode[];
+  links: GraphLink[];
+}
+
+/** Prompt for the concepts around one node, in the context of the graph it belongs to. */
+export const buildSubgraphPrompt = (label: string, { nodes }: GraphData): string => {
+  const root = nodes.find(n => n.type === 'main') || nodes[0];
+  // Listing what is already shown steers the model toward new concepts
+  const known = nodes.map(n => n.label).slice(0, MAX_KNOWN_LABELS).join(', ');
+
+  return `
+    You are expanding one node of a knowledge graph about "${root?.label || label}".
+
+    Node to expand: "${label}"
+    Already in the graph: ${known}
+
+    Search for "${label}" and list 4 to 6 closely related concepts, people, events or components.
+    Prefer concepts not already in the graph; you may link to existing ones by using their exact label.
+
+    OUTPUT FORMAT:
+    Return only a JSON object wrapped in \`\`\`json ... \`\`\`:
+    { "nodes": [{"id":"1", "label":"${label}", "type":"main"}, {"id":"2", "label":"Related concept", "type":"sub"}], "links": [{ "source": "1", "target": "2", "label": "relation" }] }
+
+    CRITICAL:
+    - The node "${label}" must be the "main" node.
+    - Every link needs a short relation label, e.g. "invented by", "part of".
+    `;
+};
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+/**
+ * Works out what a fetched subgraph adds to `graph` when attached at `anchor`.
+ * The subgraph's main node becomes the anchor, nodes whose label is already shown are
+ * reused, and links that already exist are skipped.
+ */
+export const mergeSubgraph = (graph: GraphData, anchor: GraphNode, subgraph: GraphData): GraphExpansion => {
+  const byLabel = new Map(graph.nodes.map(n => [normalizeLabel(n.label), n.id]));
+  const usedIds = new Set(graph.nodes.map(n => n.id));
+  const idMap = new Map<string, string>();
+  const nodes: GraphNode[] = [];
+
+  subgraph.nodes.forEach(node => {
+    if (node.type === 'main') {
+      idMap.set(node.id, anchor.id);
+      return;
+    }
+    const existing = byLabel.get(normalizeLabel(node.label));
+    if (existing) {
+      idMap.set(node.id, existing);
+      return;
+    }
+    // Namespaced under the anchor so ids from different subgraphs never clash
+    let id = `${anchor.id}/${node.id}`;
+    for (let n = 2; usedIds.has(id); n++) id = `${anchor.id}/${node.id}-${n}`;
+    usedIds.add(id);
+    byLabel.set(normalizeLabel(node.label), id);
+    idMap.set(node.id, id);
+    nodes.push({ id, label: node.label, type: 'sub' });
+  });
+
+  const linkKey = (a: string, b: string) => a < b ? `${a}\n${b}` : `${b}\n${a}`;
+  const seenLinks = new Set(graph.links.map(l => linkKey(l.source, l.target)));
+  const links: GraphLink[] = [];
+
+  subgraph.links.forEach(link => {
+    const source = idMap.get(link.source);
+    const target = idMap.get(link.target);
+    if (!source || !target || source === target || seenLinks.has(linkKey(source, target))) return;
+    seenLinks.add(linkKey(source, target));
+    links.push({ source, target, label: link.label });
+  });
+
+  return { nodeId: anchor.id, label: anchor.label, nodes, links };
+};
+
+/** The base graph with every expansion applied, dropping links to nodes no longer shown. */
+export const applyExpansions = (base: GraphData, expansions: GraphExpansion[]): GraphData => {
+  const nodes = [...base.nodes, ...expansions.flatMap(e => e.nodes)];
+  const ids = new Set(nodes.map(n => n.id));
+  const links = [...base.links, ...expansions.flatMap(e => e.links)]
+    .filter(l => ids.has(l.source) && ids.has(l.target));
+  return { nodes, links };
+};
+
+/** Removes a node's expansion along with any expansions of the nodes it introduced. */
+export const collapseExpansion = (expansions: GraphExpansion[], nodeId: string): GraphExpansion[] => {
+  const removed = new Set([nodeId]);
+  return expansions.filter(expansion => {
+    if (!removed.has(expansion.nodeId)) return true;
+    expansion.nodes.forEach(n => removed.add(n.id));
+    return false;
+  });
+};
@@ -0,0 +1,175 @@
+import { GraphLink, GraphNode } from "../types";
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+export interface GraphLayoutOptions {
+  iterations?: number;
+  // Positions to keep as they are, e.g. nodes the user dragged
+  fixed?: Map<string, GraphPoint>;
+}
+
+const RING_SPACING = 140;
+const REPULSION = 9000;
+const SPRING_STRENGTH = 0.06;
+const LINK_LENGTH = 110;
+const GRAVITY = 0.015;
+const DAMPING = 0.6;
+const MIN_DISTANCE = 56;
+
+/**
+ * Distance of every node from the main node, following links in both directions.
+ * Nodes the links never reach are placed one level past the deepest one.
+ */
+export const computeGraphLevels = (nodes: GraphNode[], links: GraphLink[]): Map<string, number> => {
+  const neighbours = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  links.forEach(({ source, target }) => {
+    neighbours.get(source)?.push(target);
+    neighbours.get(target)?.push(source);
+  });
+
+  const root = nodes.find(n => n.type === 'main') || nodes[0];
+  const levels = new Map<string, number>();
+  if (!root) return levels;
+
+  levels.set(root.id, 0);
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of neighbours.get(id) || []) {
+      if (!levels.has(next)) {
+        levels.set(next, levels.get(id)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+
+  const orphanLevel = Math.max(0, ...levels.values()) + 1;
+  nodes.forEach(n => { if (!levels.has(n.id)) levels.set(n.id, orphanLevel); });
+  return levels;
+};
+
+// Concentric rings in BFS order, so siblings start next to each other
+const seedPositions = (nodes: GraphNode[], levels: Map<string, number>): Map<string, GraphPoint> => {
+  const rings = new Map<number, GraphNode[]>();
+  nodes.forEach(n => {
+    const level = levels.get(n.id)!;
+    rings.set(level, [...(rings.get(level) || []), n]);
+  });
+
+  const positions = new Map<string, GraphPoint>();
+  rings.forEach((ring, level) => {
+    ring.forEach((node, i) => {
+      // Offset alternate rings so their nodes don't line up radially
+      const angle = (i / ring.length) * 2 * Math.PI + level * 0.5;
+      positions.set(node.id, { x: Math.cos(angle) * level * RING_SPACING, y: Math.sin(angle) * level * RING_SPACING });
+    });
+  });
+  return positions;
+};
+
+// Nodes added next to an already placed node (e.g. a drill-down) start in a circle around it
+const seedAroundFixed = (positions: Map<string, GraphPoint>, links: GraphLink[], fixed: Map<string, GraphPoint>) => {
+  const attached = new Map<string, string[]>();
+  const claimed = new Set<string>();
+  links.forEach(({ source, target }) => {
+    const [anchor, node] = fixed.has(source) ? [source, target] : [target, source];
+    if (!fixed.has(anchor) || fixed.has(node) || claimed.has(node) || !positions.has(node)) return;
+    claimed.add(node);
+    attached.set(anchor, [...(attached.get(anchor) || []), node]);
+  });
+
+  attached.forEach((ids, anchor) => {
+    const centre = fixed.get(anchor)!;
+    // Start facing away from the origin so the new cluster grows outward
+    const outward = Math.atan2(centre.y, centre.x);
+    ids.forEach((id, i) => {
+      const angle = outward + ((i - (ids.length - 1) / 2) / ids.length) * Math.PI * 1.5;
+      positions.set(id, { x: centre.x + Math.cos(angle) * LINK_LENGTH, y: centre.y + Math.sin(angle) * LINK_LENGTH });
+    });
+  });
+};
+
+/**
+ * Deterministic force-directed layout: node repulsion, springs along links and a weak pull
+ * to the centre, cooled over a fixed number of iterations. The main node stays at the origin.
+ */
+export const layoutGraph = (nodes: GraphNode[], links: GraphLink[], { iterations = 300, fixed = new Map() }: GraphLayoutOptions = {}): Map<string, GraphPoint> => {
+  const levels = computeGraphLevels(nodes, links);
+  const positions = seedPositions(nodes, levels);
+  fixed.forEach((point, id) => { if (positions.has(id)) positions.set(id, { ...point }); });
+  seedAroundFixed(positions, links, fixed);
+
+  const root = nodes.find(n => n.type === 'main') || nodes[0];
+  const isPinned = (id: string) => fixed.has(id) || id === root?.id;
+  const velocities = new Map<string, GraphPoint>(nodes.map(n => [n.id, { x: 0, y: 0 }]));
+  const ids = nodes.map(n => n.id);
+
+  for (let tick = 0; tick < iterations; tick++) {
+    const alpha = 1 - tick / iterations;
+    const forces = new Map<string, GraphPoint>(ids.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i])!;
+        const b = positions.get(ids[j])!;
+        const dx = a.x - b.x || 0.01 * (i - j);
+        const dy = a.y - b.y || 0.01;
+        const distSq = Math.max(dx * dx + dy * dy, 1);
+        const force = (REPULSION * alpha) / distSq;
+        const dist = Math.sqrt(distSq);
+        forces.get(ids[i])!.x += (dx / dist) * force;
+        forces.get(ids[i])!.y += (dy / dist) * force;
+        forces.get(ids[j])!.x -= (dx / dist) * force;
+        forces.get(ids[j])!.y -= (dy / dist) * force;
+      }
+    }
+
+    links.forEach(({ source, target }) => {
+      const a = positions.get(source);
+      const b = positions.get(target);
+      if (!a || !b) return;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+      // Deeper links are shorter so detail nodes cluster around their parent
+      const depth = Math.max(levels.get(source)!, levels.get(target)!);
+      const rest = LINK_LENGTH * (depth <= 1 ? 1.2 : 0.8);
+      const force = (dist - rest) * SPRING_STRENGTH * alpha;
+      forces.get(source)!.x += (dx / dist) * force;
+      forces.get(source)!.y += (dy / dist) * force;
+      forces.get(target)!.x -= (dx / dist) * force;
+      forces.get(target)!.y -= (dy / dist) * force;
+    });
+
+    ids.forEach(id => {
+      if (isPinned(id)) return;
+      const p = positions.get(id)!;
+      const v = velocities.get(id)!;
+      const f = forces.get(id)!;
+      v.x = (v.x + f.x - p.x * GRAVITY * alpha) * DAMPING;
+      v.y = (v.y + f.y - p.y * GRAVITY * alpha) * DAMPING;
+      p.x += v.x;
+      p.y += v.y;
+    });
+  }
+
+  // Final pass: push apart nodes that still overlap
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const a = positions.get(ids[i])!;
+      const b = positions.get(ids[j])!;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+      if (dist >= MIN_DISTANCE) continue;
+      const push = (MIN_DISTANCE - dist) / 2;
+      if (!isPinned(ids[i])) { a.x -= (dx / dist) * push; a.y -= (dy / dist) * push; }
+      if (!isPinned(ids[j])) { b.x += (dx / dist) * push; b.y += (dy / dist) * push; }
+    }
+  }
+
+  return positions;
+};
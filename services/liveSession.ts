@@ -0,0 +1,259 @@
+import { FunctionCall, GoogleGenAI, LiveConnectConfig, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage, Session } from "@google/genai";
+import { debugLog } from "./debugChannel";
+
+export type LiveSessionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'failed';
+
+export interface LiveSessionStatus {
+  state: LiveSessionState;
+  // Reconnect attempt in progress (0 when not reconnecting)
+  attempt: number;
+  // Whether an 'open' session continues the previous one via session resumption
+  resumed: boolean;
+  error?: string;
+}
+
+export interface LiveSessionEvents {
+  status: LiveSessionStatus;
+  inputTranscription: string;
+  outputTranscription: string;
+  // Base64 PCM from the model, 24kHz mono
+  audio: string;
+  turnComplete: void;
+  interrupted: void;
+  toolCall: FunctionCall[];
+  // Ids of tool calls the model no longer wants answered
+  toolCallCancellation: string[];
+}
+
+export type LiveSessionListener<K extends keyof LiveSessionEvents> = (payload: LiveSessionEvents[K]) => void;
+
+export interface LiveSessionOptions {
+  model: string;
+  // Called on every (re)connect so the session always starts from current settings
+  config: () => LiveConnectConfig;
+  apiKey?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface LiveSessionClient {
+  getStatus: () => LiveSessionStatus;
+  connect: () => void;
+  // Ends the session for good; the next connect() starts a fresh one
+  disconnect: () => void;
+  on: <K extends keyof LiveSessionEvents>(event: K, listener: LiveSessionListener<K>) => () => void;
+  // Senders return false while the socket isn't open; realtime input is dropped, not queued
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => boolean;
+  sendClientContent: (params: LiveSendClientContentParameters) => boolean;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => boolean;
+}
+
+const DEBUG_CHANNEL = 'live.session';
+const DEFAULT_MAX_RETRIES = 6;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+// A socket counts as working once it stayed open this long (or the model answered)
+const STABLE_CONNECTION_MS = 10000;
+
+// Invalid config, policy violations and auth errors: retrying gets the same close again
+const isFatalCloseCode = (code: number) => code === 1007 || code === 1008 || (code >= 4000 && code < 5000);
+
+/** Exponential backoff with "equal jitter": half the delay is fixed, half is random. */
+export const backoffDelay = (attempt: number, baseMs = DEFAULT_BASE_DELAY_MS, maxMs = DEFAULT_MAX_DELAY_MS): number => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+/**
+ * Owns one Gemini Live conversation across socket drops. Unexpected closes and GoAway
+ * notices reconnect with backoff, resuming the server-side session when the server
+ * handed out a resumption handle; after `maxRetries` failed attempts the state is 'failed'.
+ */
+export const createLiveSessionClient = ({
+  model,
+  config,
+  apiKey = process.env.API_KEY || '',
+  maxRetries = DEFAULT_MAX_RETRIES,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+}: LiveSessionOptions): LiveSessionClient => {
+  const listeners = new Map<keyof LiveSessionEvents, Set<(payload: any) => void>>();
+  let status: LiveSessionStatus = { state: 'idle', attempt: 0, resumed: false };
+  let session: Session | null = null;
+  let resumeHandle: string | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stableTimer: ReturnType<typeof setTimeout> | null = null;
+  // Reconnects since the last stable socket; a socket that opens and drops right away doesn't reset it
+  let failedAttempts = 0;
+  // Bumped for every socket, so callbacks from a replaced socket are ignored
+  let generation = 0;
+
+  const emit = <K extends keyof LiveSessionEvents>(event: K, payload: LiveSessionEvents[K]) => {
+    listeners.get(event)?.forEach(listener => {
+      try { listener(payload); } catch (e) { console.error(`Live session "${event}" listener failed`, e); }
+    });
+  };
+
+  const setStatus = (next: Partial<LiveSessionStatus>) => {
+    status = { ...status, ...next };
+    debugLog(DEBUG_CHANNEL, `State: ${status.state}`, status);
+    emit('status', status);
+  };
+
+  const clearRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+
+  const clearStable = () => {
+    if (stableTimer) clearTimeout(stableTimer);
+    stableTimer = null;
+  };
+
+  const markStable = () => {
+    clearStable();
+    failedAttempts = 0;
+  };
+
+  const closeSocket = () => {
+    generation++;
+    clearStable();
+    try { session?.close(); } catch (e) {}
+    session = null;
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    closeSocket();
+    const attempt = ++failedAttempts;
+    if (attempt > maxRetries) {
+      resumeHandle = undefined;
+      setStatus({ state: 'failed', attempt: 0, error: reason });
+      return;
+    }
+    const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+    setStatus({ state: 'reconnecting', attempt, error: reason });
+    debugLog(DEBUG_CHANNEL, `Reconnecting in ${Math.round(delay)}ms`, { attempt, reason });
+    clearRetry();
+    retryTimer = setTimeout(openSocket, delay);
+  };
+
+  const handleMessage = (msg: LiveServerMessage) => {
+    const update = msg.sessionResumptionUpdate;
+    // Handles are only usable while the model is idle; keep the last good one otherwise
+    if (update?.resumable && update.newHandle) resumeHandle = update.newHandle;
+
+    const content = msg.serverContent;
+    if (content && stableTimer) markStable();
+    if (content?.inputTranscription?.text) emit('inputTranscription', content.inputTranscription.text);
+    if (content?.outputTranscription?.text) emit('outputTranscription', content.outputTranscription.text);
+    if (content?.interrupted) emit('interrupted', undefined);
+    content?.modelTurn?.parts?.forEach(part => {
+      if (part.inlineData?.data) emit('audio', part.inlineData.data);
+    });
+    if (content?.turnComplete) emit('turnComplete', undefined);
+
+    if (msg.toolCall?.functionCalls?.length) emit('toolCall', msg.toolCall.functionCalls);
+    if (msg.toolCallCancellation?.ids?.length) emit('toolCallCancellation', msg.toolCallCancellation.ids);
+
+    // The server is about to drop us: move to a new socket now, resuming where we are
+    if (msg.goAway) {
+      debugLog(DEBUG_CHANNEL, 'GoAway received', msg.goAway);
+      scheduleReconnect('Server asked to reconnect');
+    }
+  };
+
+  const openSocket = async () => {
+    retryTimer = null;
+    if (!apiKey) {
+      setStatus({ state: 'failed', attempt: 0, error: 'API Key not found.' });
+      return;
+    }
+
+    const socketGeneration = ++generation;
+    const resuming = !!resumeHandle;
+    if (status.state !== 'reconnecting') {
+      failedAttempts = 0;
+      setStatus({ state: 'connecting', attempt: 0, resumed: false, error: undefined });
+    }
+
+    try {
+      const ai = new GoogleGenAI({ apiKey });
+      const connected = await ai.live.connect({
+        model,
+        config: { ...config(), sessionResumption: { handle: resumeHandle } },
+        callbacks: {
+          onopen: () => debugLog(DEBUG_CHANNEL, 'Socket open', { resuming }),
+          onmessage: (msg: LiveServerMessage) => {
+            if (socketGeneration === generation) handleMessage(msg);
+          },
+          onerror: (e: ErrorEvent) => {
+            if (socketGeneration !== generation) return;
+            console.error("Live session error:", e);
+            scheduleReconnect(e.message || 'Network error');
+          },
+          onclose: (e: CloseEvent) => {
+            if (socketGeneration !== generation) return;
+            // A rejected resumption handle shouldn't poison every retry
+            if (resuming && e.code !== 1000) resumeHandle = undefined;
+            if (isFatalCloseCode(e.code)) {
+              console.error("Live session closed:", e.code, e.reason);
+              closeSocket();
+              resumeHandle = undefined;
+              setStatus({ state: 'failed', attempt: 0, error: e.reason || `Connection closed (${e.code})` });
+              return;
+            }
+            scheduleReconnect(e.reason || 'Connection closed');
+          },
+        },
+      });
+
+      if (socketGeneration !== generation) {
+        try { connected.close(); } catch (e) {}
+        return;
+      }
+      // 'open' waits for connect() to resolve so listeners can send right away
+      session = connected;
+      stableTimer = setTimeout(markStable, STABLE_CONNECTION_MS);
+      setStatus({ state: 'open', attempt: 0, resumed: resuming, error: undefined });
+    } catch (err: any) {
+      if (socketGeneration !== generation) return;
+      console.error("Live session connect failed:", err);
+      scheduleReconnect(err?.message || 'Failed to connect');
+    }
+  };
+
+  const send = (action: (session: Session) => void): boolean => {
+    if (!session || status.state !== 'open') return false;
+    try {
+      action(session);
+      return true;
+    } catch (e) {
+      console.error("Live session send failed", e);
+      return false;
+    }
+  };
+
+  return {
+    getStatus: () => status,
+    connect: () => {
+      if (status.state === 'connecting' || status.state === 'open' || status.state === 'reconnecting') return;
+      clearRetry();
+      openSocket();
+    },
+    disconnect: () => {
+      clearRetry();
+      closeSocket();
+      resumeHandle = undefined;
+      if (status.state !== 'idle') setStatus({ state: 'closed', attempt: 0, resumed: false, error: undefined });
+    },
+    on: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return () => { listeners.get(event)?.delete(listener); };
+    },
+    sendRealtimeInput: params => send(s => s.sendRealtimeInput(params)),
+    sendClientContent: params => send(s => s.sendClientContent(params)),
+    sendToolResponse: params => send(s => s.sendToolResponse(params)),
+  };
+};
@@ -0,0 +1,166 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from "@google/genai";
+import { HoloData, LocaleSettings, SearchResult, SmartWidgetData } from "../types";
+import { debugLog } from "./debugChannel";
+
+export type LiveToolFeedbackType = 'search' | 'scan' | 'think' | 'widget';
+
+/** What a tool may do to the Companion UI. Calls made after the tool timed out or was cancelled are ignored. */
+export interface LiveToolContext {
+  locale: LocaleSettings;
+  // Aborted on timeout or when the model cancels the call
+  signal: AbortSignal;
+  showFeedback: (text: string, type: LiveToolFeedbackType) => void;
+  showSites: (sites: SearchResult[]) => void;
+  showWidget: (widget: SmartWidgetData) => void;
+  showHud: (data: HoloData) => void;
+}
+
+export interface LiveTool<Args> {
+  name: string;
+  // A function when the declaration depends on other registries (e.g. render_widget on the widgets)
+  declaration: FunctionDeclaration | (() => FunctionDeclaration);
+  // Line added to the system instruction telling the model when to use the tool
+  guidance?: string;
+  timeoutMs: number;
+  // Turns the model's raw arguments into `Args`; throw to answer the call with an error
+  parseArgs: (raw: Record<string, unknown>) => Args;
+  // Shown in the command overlay when the call starts
+  feedback?: (args: Args) => { text: string; type: LiveToolFeedbackType };
+  // One line for the saved session, e.g. "Searched: hiking boots"
+  describe: (args: Args) => string;
+  // Resolves with the function response for the model; throw to report an error instead
+  handler: (args: Args, context: LiveToolContext) => Promise<Record<string, unknown>>;
+}
+
+export interface LiveToolOutcome {
+  call: FunctionCall;
+  summary: string;
+  // Undefined when the model cancelled the call; nothing is sent back then
+  response?: FunctionResponse;
+  error?: string;
+}
+
+export type LiveToolInfo = Pick<LiveTool<unknown>, 'name' | 'declaration' | 'guidance' | 'timeoutMs'>;
+
+// A call whose arguments were parsed, ready to run
+interface PreparedCall {
+  summary: string;
+  feedback?: { text: string; type: LiveToolFeedbackType };
+  run: (context: LiveToolContext) => Promise<Record<string, unknown>>;
+}
+
+interface RegisteredLiveTool extends LiveToolInfo {
+  prepare: (raw: Record<string, unknown>) => PreparedCall;
+}
+
+const DEBUG_CHANNEL = 'live.tools';
+
+// Insertion order is declaration order
+const tools = new Map<string, RegisteredLiveTool>();
+// Calls still running, so a toolCallCancellation can stop them
+const inFlight = new Map<string, AbortController>();
+
+/** Registers (or replaces) a live tool. Call it when the tool's module loads. */
+export const registerLiveTool = <Args>({ parseArgs, feedback, describe, handler, ...info }: LiveTool<Args>): void => {
+  // The only place Args is known: parsed arguments go straight to describe, feedback and the handler
+  tools.set(info.name, {
+    ...info,
+    prepare: raw => {
+      const args = parseArgs(raw);
+      return { summary: describe(args), feedback: feedback?.(args), run: context => handler(args, context) };
+    },
+  });
+};
+
+export const getLiveTool = (name: string): LiveToolInfo | undefined => tools.get(name);
+
+export const listLiveTools = (): LiveToolInfo[] => Array.from(tools.values());
+
+export const buildLiveToolDeclarations = (): FunctionDeclaration[] =>
+  listLiveTools().map(tool => typeof tool.declaration === 'function' ? tool.declaration() : { ...tool.declaration, name: tool.name });
+
+/** The tool lines of the system instruction. */
+export const describeLiveTools = (): string[] =>
+  listLiveTools().filter(tool => tool.guidance).map(tool => `Use '${tool.name}' ${tool.guidance}`);
+
+const withTimeout = <T>(work: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> =>
+  new Promise((resolve, reject) => {
+    // Rejects before aborting, so the timeout wins over the abort listener's "Cancelled"
+    const timer = setTimeout(() => {
+      reject(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s`));
+      controller.abort();
+    }, timeoutMs);
+    controller.signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error("Cancelled"));
+    });
+    work.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+/**
+ * Runs one function call through its registered tool. Never rejects: unknown tools,
+ * handler errors and timeouts all come back as an `{ error }` response for the model.
+ */
+export const executeLiveToolCall = async (call: FunctionCall, context: Omit<LiveToolContext, 'signal'>): Promise<LiveToolOutcome> => {
+  const name = call.name || 'unknown';
+  const tool = tools.get(name);
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name, response });
+
+  if (!tool) {
+    console.error(`Unknown live tool "${name}"`);
+    return { call, summary: name, error: 'Unknown tool', response: respond({ error: `Unknown tool "${name}"` }) };
+  }
+
+  let prepared: PreparedCall;
+  try {
+    prepared = tool.prepare(call.args || {});
+  } catch (e: any) {
+    const error = e?.message || 'Invalid arguments';
+    console.error(`Live tool "${name}" got invalid arguments`, e);
+    return { call, summary: name, error, response: respond({ error }) };
+  }
+
+  const { summary, feedback, run } = prepared;
+  const controller = new AbortController();
+  if (call.id) inFlight.set(call.id, controller);
+
+  // UI updates from a call that already timed out or was cancelled would show stale results
+  const ifLive = (update: () => void) => {
+    if (!controller.signal.aborted) update();
+  };
+  const toolContext: LiveToolContext = {
+    locale: context.locale,
+    signal: controller.signal,
+    showFeedback: (text, type) => ifLive(() => context.showFeedback(text, type)),
+    showSites: sites => ifLive(() => context.showSites(sites)),
+    showWidget: widget => ifLive(() => context.showWidget(widget)),
+    showHud: data => ifLive(() => context.showHud(data)),
+  };
+
+  try {
+    if (feedback) toolContext.showFeedback(feedback.text, feedback.type);
+    const response = await withTimeout(run(toolContext), tool.timeoutMs, controller);
+    debugLog(DEBUG_CHANNEL, `${name} done`, { id: call.id });
+    return { call, summary, response: respond(response) };
+  } catch (e: any) {
+    const cancelled = controller.signal.aborted && !String(e?.message).startsWith('Timed out');
+    const error = e?.message || 'Tool failed';
+    if (cancelled) {
+      debugLog(DEBUG_CHANNEL, `${name} cancelled`, { id: call.id });
+      return { call, summary, error: 'Cancelled' };
+    }
+    console.error(`Live tool "${name}" failed`, e);
+    return { call, summary, error, response: respond({ error }) };
+  } finally {
+    if (call.id) inFlight.delete(call.id);
+  }
+};
+
+/** Runs every call at once and resolves when all of them have an outcome, in call order. */
+export const executeLiveToolCalls = (calls: FunctionCall[], context: Omit<LiveToolContext, 'signal'>): Promise<LiveToolOutcome[]> =>
+  Promise.all(calls.map(call => executeLiveToolCall(call, context)));
+
+/** Stops calls the model cancelled (e.g. after being interrupted). */
+export const cancelLiveToolCalls = (ids: string[]): void => {
+  ids.forEach(id => inFlight.get(id)?.abort());
+};
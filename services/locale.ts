@@ -0,0 +1,81 @@
+import { LocaleSettings, UserProfile } from "../types";
+
+export interface LocaleOption {
+  code: string;
+  label: string;
+}
+
+export const LANGUAGES: LocaleOption[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'ta', label: 'தமிழ்' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'zh', label: '中文' },
+  { code: 'ar', label: 'العربية' },
+];
+
+// English names keep the model prompts unambiguous
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', it: 'Italian', pt: 'Portuguese', nl: 'Dutch',
+  pl: 'Polish', hi: 'Hindi', ta: 'Tamil', ja: 'Japanese', ko: 'Korean', zh: 'Chinese', ar: 'Arabic',
+};
+
+export const REGIONS: LocaleOption[] = [
+  { code: 'US', label: 'United States' },
+  { code: 'GB', label: 'United Kingdom' },
+  { code: 'IN', label: 'India' },
+  { code: 'CA', label: 'Canada' },
+  { code: 'AU', label: 'Australia' },
+  { code: 'DE', label: 'Germany' },
+  { code: 'FR', label: 'France' },
+  { code: 'ES', label: 'Spain' },
+  { code: 'IT', label: 'Italy' },
+  { code: 'NL', label: 'Netherlands' },
+  { code: 'PL', label: 'Poland' },
+  { code: 'BR', label: 'Brazil' },
+  { code: 'MX', label: 'Mexico' },
+  { code: 'JP', label: 'Japan' },
+  { code: 'KR', label: 'South Korea' },
+  { code: 'CN', label: 'China' },
+  { code: 'AE', label: 'United Arab Emirates' },
+  { code: 'SG', label: 'Singapore' },
+];
+
+const FALLBACK_LOCALE: LocaleSettings = { uiLanguage: 'en', region: 'US', answerLanguage: 'en' };
+
+// Browser language (e.g. 'de-AT'), limited to what we offer
+const getBrowserLocale = (): LocaleSettings => {
+  try {
+    const [language, region] = navigator.language.split('-');
+    const uiLanguage = LANGUAGES.some(l => l.code === language) ? language : FALLBACK_LOCALE.uiLanguage;
+    const regionCode = region?.toUpperCase();
+    return {
+      uiLanguage,
+      region: REGIONS.some(r => r.code === regionCode) ? regionCode : FALLBACK_LOCALE.region,
+      answerLanguage: uiLanguage,
+    };
+  } catch (e) {
+    return FALLBACK_LOCALE;
+  }
+};
+
+/** The user's saved locale, with anything unset taken from the browser. */
+export const resolveLocale = (user?: UserProfile | null): LocaleSettings => ({
+  ...getBrowserLocale(),
+  ...user?.locale,
+});
+
+export const getLanguageName = (code: string): string => LANGUAGE_NAMES[code] || code;
+
+export const getRegionName = (code: string): string => REGIONS.find(r => r.code === code)?.label || code;
+
+// BCP 47 tag for the Web Speech API, e.g. 'de-DE'
+export const toSpeechLang = ({ uiLanguage, region }: LocaleSettings): string => `${uiLanguage}-${region}`;
@@ -0,0 +1,71 @@
+import { CommunicationStyle, LocaleSettings, UserPreferences, UserProfile } from "../types";
+import { getLanguageName, getRegionName, LocaleOption } from "./locale";
+import { describeLiveTools } from "./liveTools";
+
+// Prebuilt Live API voices, labelled with the character Google gives them
+export const VOICES: LocaleOption[] = [
+  { code: 'Kore', label: 'Kore — Firm' },
+  { code: 'Puck', label: 'Puck — Upbeat' },
+  { code: 'Charon', label: 'Charon — Informative' },
+  { code: 'Fenrir', label: 'Fenrir — Excitable' },
+  { code: 'Aoede', label: 'Aoede — Breezy' },
+  { code: 'Leda', label: 'Leda — Youthful' },
+  { code: 'Orus', label: 'Orus — Firm' },
+  { code: 'Zephyr', label: 'Zephyr — Bright' },
+];
+
+export const COMMUNICATION_STYLES: LocaleOption[] = [
+  { code: 'brief', label: 'Brief' },
+  { code: 'detailed', label: 'Detailed' },
+  { code: 'casual', label: 'Casual' },
+  { code: 'professional', label: 'Professional' },
+];
+
+const STYLE_GUIDELINES: Record<CommunicationStyle, string> = {
+  brief: 'Keep answers to one or two short sentences unless asked for more.',
+  detailed: 'Give thorough answers with the reasoning and the key details, but stay spoken-friendly.',
+  casual: 'Be relaxed and friendly, like a knowledgeable friend. Contractions and light humour are fine.',
+  professional: 'Be precise and neutral, like a senior engineer briefing a colleague. No small talk.',
+};
+
+export const PERSONA_NOTES_MAX_LENGTH = 500;
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  communicationStyle: 'brief',
+  voiceName: 'Kore',
+  assistantName: 'Alexis',
+  personaNotes: '',
+};
+
+/** The user's saved preferences, with anything unset (older profiles) taken from the defaults. */
+export const resolvePreferences = (user?: UserProfile | null): UserPreferences => {
+  const preferences = { ...DEFAULT_PREFERENCES, ...user?.preferences };
+  return {
+    ...preferences,
+    voiceName: VOICES.some(v => v.code === preferences.voiceName) ? preferences.voiceName : DEFAULT_PREFERENCES.voiceName,
+    assistantName: preferences.assistantName.trim() || DEFAULT_PREFERENCES.assistantName,
+  };
+};
+
+export const buildSpeechConfig = ({ voiceName }: UserPreferences) => ({
+  voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+});
+
+/** System instruction for a Companion live session. */
+export const buildCompanionInstruction = (user: UserProfile, locale: LocaleSettings, preferences: UserPreferences): string => {
+  const notes = preferences.personaNotes.trim().slice(0, PERSONA_NOTES_MAX_LENGTH);
+  return `You are ${preferences.assistantName}, an AI browser companion. User: ${user.name}.
+    
+    Role & Persona:
+    - You are a high-performance technical assistant and browser co-pilot.
+    - You have deep knowledge of technical jargon.
+    - ${STYLE_GUIDELINES[preferences.communicationStyle] || STYLE_GUIDELINES.brief}${notes ? `
+    - Notes from the user about how you should behave: ${notes}` : ''}
+    
+    Interaction Guidelines:
+    - The user speaks ${getLanguageName(locale.uiLanguage)}. ALWAYS REPLY IN ${getLanguageName(locale.answerLanguage).toUpperCase()}, even if they switch language.
+    - The user is in ${getRegionName(locale.region)}; prefer local units, currency and sources.
+    - IMPORTANT: As soon as the session starts, you MUST verbally greet the user by their name (${user.name}) and enthusiastically ask what they would like to search for or explore today. Do not wait for user input.
+    - Be conversational; you are speaking, not writing.
+${describeLiveTools().map(line => `    - ${line}`).join('\n')}`;
+};
@@ -0,0 +1,199 @@
+import { SearchResponse, SearchResult } from "../types";
+
+export type QueryOperatorKind = 'site' | 'excludeSite' | 'exclude' | 'exact' | 'before' | 'after' | 'filetype';
+
+export interface QueryOperator {
+  kind: QueryOperatorKind;
+  value: string;
+  // Original token, used to rebuild the query string
+  raw: string;
+}
+
+export interface ParsedQuery {
+  raw: string;
+  // Free text, with exact phrases kept in quotes
+  text: string;
+  operators: QueryOperator[];
+}
+
+const TOKEN_PATTERN = /(-?)(site|before|after|filetype):("[^"]*"|\S+)|(-?)"([^"]+)"|(\S+)/gi;
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+// Accepts YYYY, YYYY-MM and YYYY-MM-DD; returns an ISO date or null
+const parseDateOperand = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(?:[-/](\d{1,2}))?(?:[-/](\d{1,2}))?$/);
+  if (!match) return null;
+  const [, year, month = '1', day = '1'] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+export const parseQuery = (raw: string): ParsedQuery => {
+  const operators: QueryOperator[] = [];
+  const words: string[] = [];
+
+  for (const match of raw.matchAll(TOKEN_PATTERN)) {
+    const [token, negation, name, operand, phraseNegation, phrase, word] = match;
+
+    if (name) {
+      const kind = name.toLowerCase();
+      const value = unquote(operand).toLowerCase();
+      if (kind === 'site') {
+        operators.push({ kind: negation ? 'excludeSite' : 'site', value: value.replace(/^www\./, ''), raw: token });
+      } else if (kind === 'filetype') {
+        operators.push({ kind: 'filetype', value: value.replace(/^\./, ''), raw: token });
+      } else {
+        const date = parseDateOperand(value);
+        if (date) {
+          operators.push({ kind: kind as 'before' | 'after', value: date, raw: token });
+        } else {
+          words.push(token);
+        }
+      }
+    } else if (phrase) {
+      if (phraseNegation) {
+        operators.push({ kind: 'exclude', value: phrase, raw: token });
+      } else {
+        operators.push({ kind: 'exact', value: phrase, raw: token });
+        words.push(token);
+      }
+    } else if (word.length > 1 && word.startsWith('-')) {
+      operators.push({ kind: 'exclude', value: word.slice(1), raw: token });
+    } else {
+      words.push(word);
+    }
+  }
+
+  return { raw, text: words.join(' '), operators };
+};
+
+// Exact phrases already live in `text`, so only the other operators are appended
+export const formatQuery = (parsed: ParsedQuery): string => {
+  const others = parsed.operators.filter(op => op.kind !== 'exact').map(op => op.raw);
+  return [parsed.text, ...others].filter(Boolean).join(' ');
+};
+
+// Removing an exact phrase keeps its words as plain text
+export const removeOperator = (parsed: ParsedQuery, index: number): ParsedQuery => {
+  const removed = parsed.operators[index];
+  const operators = parsed.operators.filter((_, i) => i !== index);
+  const text = removed?.kind === 'exact'
+    ? parsed.text.replace(removed.raw, removed.value).replace(/\s+/g, ' ').trim()
+    : parsed.text;
+  return { raw: parsed.raw, text, operators };
+};
+
+export const describeOperator = (operator: QueryOperator): string => {
+  switch (operator.kind) {
+    case 'site': return `site: ${operator.value}`;
+    case 'excludeSite': return `not site: ${operator.value}`;
+    case 'exclude': return `without "${operator.value}"`;
+    case 'exact': return `"${operator.value}"`;
+    case 'before': return `before ${operator.value}`;
+    case 'after': return `after ${operator.value}`;
+    case 'filetype': return `.${operator.value} files`;
+  }
+};
+
+const valuesOf = (parsed: ParsedQuery, kind: QueryOperatorKind) =>
+  parsed.operators.filter(op => op.kind === kind).map(op => op.value);
+
+/** Prompt lines spelling out the operators for the model. Empty when there are none. */
+export const describeConstraints = (parsed: ParsedQuery): string => {
+  const lines: string[] = [];
+  const sites = valuesOf(parsed, 'site');
+  const excludedSites = valuesOf(parsed, 'excludeSite');
+  const excluded = valuesOf(parsed, 'exclude');
+  const exact = valuesOf(parsed, 'exact');
+  const fileTypes = valuesOf(parsed, 'filetype');
+  const [before] = valuesOf(parsed, 'before');
+  const [after] = valuesOf(parsed, 'after');
+
+  if (sites.length) lines.push(`- Only include results from: ${sites.join(', ')}`);
+  if (excludedSites.length) lines.push(`- Never include results from: ${excludedSites.join(', ')}`);
+  if (excluded.length) lines.push(`- Exclude pages about or mentioning: ${excluded.map(t => `"${t}"`).join(', ')}`);
+  if (exact.length) lines.push(`- Pages must contain the exact phrase(s): ${exact.map(t => `"${t}"`).join(', ')}`);
+  if (after) lines.push(`- Only include pages published on or after ${after}`);
+  if (before) lines.push(`- Only include pages published before ${before}`);
+  if (fileTypes.length) lines.push(`- Only include documents of type: ${fileTypes.join(', ')}`);
+
+  return lines.length ? `\n    SEARCH CONSTRAINTS:\n    ${lines.join('\n    ')}\n` : '';
+};
+
+// --- Post-filtering ---
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch (e) {
+    return '';
+  }
+};
+
+const matchesSite = (url: string, site: string) => {
+  const [domain, ...path] = site.split('/');
+  const host = hostnameOf(url);
+  const hostMatches = host === domain || host.endsWith(`.${domain}`);
+  return hostMatches && (path.length === 0 || url.toLowerCase().includes(`/${path.join('/')}`));
+};
+
+// News results carry `publishedAt`; everything else may have a free-form `date`
+const resultTime = (result: SearchResult & { publishedAt?: string }): number | null => {
+  const value = result.publishedAt || result.date;
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Drops results that violate the operators. Results without a parseable date are kept
+ * for before:/after: since they cannot be ruled out. Exact phrases only shape the prompt,
+ * as snippets are summaries rather than page text.
+ */
+export const filterResults = <T extends SearchResult>(results: T[], parsed: ParsedQuery): T[] => {
+  if (parsed.operators.length === 0) return results;
+
+  const sites = valuesOf(parsed, 'site');
+  const excludedSites = valuesOf(parsed, 'excludeSite');
+  const excluded = valuesOf(parsed, 'exclude').map(t => t.toLowerCase());
+  const fileTypes = valuesOf(parsed, 'filetype');
+  const [before] = valuesOf(parsed, 'before');
+  const [after] = valuesOf(parsed, 'after');
+
+  return results.filter(result => {
+    if (sites.length && !sites.some(site => matchesSite(result.url, site))) return false;
+    if (excludedSites.some(site => matchesSite(result.url, site))) return false;
+
+    if (excluded.length) {
+      const haystack = `${result.title} ${result.snippet || ''}`.toLowerCase();
+      if (excluded.some(term => haystack.includes(term))) return false;
+    }
+
+    if (fileTypes.length) {
+      const path = result.url.split(/[?#]/)[0].toLowerCase();
+      if (!fileTypes.some(ext => path.endsWith(`.${ext}`))) return false;
+    }
+
+    const time = resultTime(result);
+    if (time !== null) {
+      if (before && time >= Date.parse(before)) return false;
+      if (after && time < Date.parse(after)) return false;
+    }
+
+    return true;
+  });
+};
+
+/** Filters a response's sources and drops citations that only pointed at removed sources. */
+export const applyQueryFilters = (response: SearchResponse, parsed: ParsedQuery): SearchResponse => {
+  if (parsed.operators.length === 0) return response;
+
+  const sources = filterResults(response.sources, parsed);
+  const kept = new Set(sources.map(s => s.url));
+  const citations = response.citations
+    ?.map(c => ({ ...c, sourceUrls: c.sourceUrls.filter(url => kept.has(url)) }))
+    .filter(c => c.sourceUrls.length > 0);
+
+  return { ...response, sources, citations };
+};
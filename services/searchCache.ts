@@ -0,0 +1,116 @@
+import { ChatMessage, SearchResponse } from "../types";
+import { debugLog } from "./debugChannel";
+
+export interface SearchCacheConfig {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  response: unknown;
+  expiresAt: number;
+}
+
+interface CacheOptions<T> {
+  bypassCache?: boolean;
+  // Decides whether a response is worth keeping (e.g. not an error fallback)
+  isCacheable?: (response: T) => boolean;
+  // The caller may abort its request, so nobody else may join it
+  signal?: AbortSignal;
+}
+
+const DEBUG_CHANNEL = 'search.cache';
+
+let config: SearchCacheConfig = {
+  ttlMs: 10 * 60 * 1000,
+  maxEntries: 50,
+};
+
+// Map iteration order doubles as LRU order: oldest first
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+export const configureSearchCache = (overrides: Partial<SearchCacheConfig>): void => {
+  config = { ...config, ...overrides };
+  evictOverflow();
+};
+
+export const clearSearchCache = (): void => {
+  entries.clear();
+};
+
+const normalizeQuery = (query: string): string =>
+  query.toLowerCase().replace(/\s+/g, ' ').replace(/[?!.\s]+$/, '').trim();
+
+/**
+ * Cache key for a query. Includes the provider and, for follow-ups, the earlier
+ * questions, since the same words mean something different in another thread.
+ */
+export const buildSearchCacheKey = (providerId: string, query: string, history: ChatMessage[] = []): string => {
+  const context = history.filter(m => m.role === 'user').map(m => normalizeQuery(m.text));
+  // Newlines never survive normalization, so they are a safe separator
+  return [providerId, ...context, normalizeQuery(query)].join('\n');
+};
+
+const evictOverflow = () => {
+  while (entries.size > config.maxEntries) {
+    const oldestKey = entries.keys().next().value as string;
+    entries.delete(oldestKey);
+  }
+};
+
+export const getCachedSearch = <T = SearchResponse>(key: string): T | undefined => {
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    entries.delete(key);
+    return undefined;
+  }
+  // Re-insert to mark as most recently used
+  entries.delete(key);
+  entries.set(key, entry);
+  return entry.response as T;
+};
+
+// Responses without sources are error or missing-key fallbacks and are not worth keeping
+export const hasSearchResults = (response: SearchResponse): boolean =>
+  response.sources.length > 0 || !!response.widget;
+
+/**
+ * Returns a cached response, joins an identical request already in flight, or runs
+ * `fetcher` and shares its promise with any concurrent callers.
+ */
+export const withSearchCache = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  { bypassCache = false, isCacheable = () => true, signal }: CacheOptions<T> = {}
+): Promise<T> => {
+  if (!bypassCache) {
+    const cached = getCachedSearch<T>(key);
+    if (cached) {
+      debugLog(DEBUG_CHANNEL, 'Cache hit', { key });
+      return Promise.resolve(cached);
+    }
+    const pending = inFlight.get(key);
+    if (pending) {
+      debugLog(DEBUG_CHANNEL, 'Joined in-flight request', { key });
+      return pending as Promise<T>;
+    }
+  }
+
+  const request = fetcher()
+    .then(response => {
+      if (isCacheable(response)) {
+        entries.delete(key);
+        entries.set(key, { response, expiresAt: Date.now() + config.ttlMs });
+        evictOverflow();
+      }
+      return response;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) inFlight.delete(key);
+    });
+
+  if (!signal) inFlight.set(key, request);
+  return request;
+};
@@ -0,0 +1,42 @@
+import { SearchHistoryEntry } from "../types";
+import { STORES, promisifyRequest, withStore } from "./database";
+
+export const saveSearchHistory = async (entry: SearchHistoryEntry): Promise<void> => {
+  try {
+    await withStore(STORES.searchHistory, 'readwrite', store => promisifyRequest(store.put(entry)));
+  } catch (e) {
+    console.error("Failed to save search history", e);
+  }
+};
+
+// Newest first
+export const listSearchHistory = async (userId: string): Promise<SearchHistoryEntry[]> => {
+  try {
+    const entries = await withStore(STORES.searchHistory, 'readonly', store =>
+      promisifyRequest(store.index('userId').getAll(userId) as IDBRequest<SearchHistoryEntry[]>)
+    );
+    return entries.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (e) {
+    console.error("Failed to load search history", e);
+    return [];
+  }
+};
+
+export const deleteSearchHistory = async (id: string): Promise<void> => {
+  try {
+    await withStore(STORES.searchHistory, 'readwrite', store => promisifyRequest(store.delete(id)));
+  } catch (e) {
+    console.error("Failed to delete search history entry", e);
+  }
+};
+
+export const clearSearchHistory = async (userId: string): Promise<void> => {
+  try {
+    await withStore(STORES.searchHistory, 'readwrite', async store => {
+      const keys = await promisifyRequest(store.index('userId').getAllKeys(userId));
+      await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+    });
+  } catch (e) {
+    console.error("Failed to clear search history", e);
+  }
+};
@@ -0,0 +1,85 @@
+import { ChatMessage, ComparisonData, GraphData, LocaleSettings, ResultVertical, SearchResponse, VerticalResultMap } from "../types";
+import type { ParsedQuery } from "./queryParser";
+import type { ComparisonItemPayload } from "./searchValidation";
+
+// Receives the response as it builds up: overview text first, sources and widget once available
+export type SearchStreamHandler = (partial: Partial<SearchResponse>) => void;
+
+export interface SearchOptions {
+  // Earlier turns of a follow-up thread, oldest first
+  history?: ChatMessage[];
+  // Skip the shared result cache and fetch fresh results
+  bypassCache?: boolean;
+  // Operators parsed out of the query (site:, before:, ...); set by the search entry points
+  parsedQuery?: ParsedQuery;
+  // Region to localise results for and language to answer in
+  locale?: LocaleSettings;
+  // Cancels the search (e.g. a live tool call that timed out); an aborted search rejects
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  id: string;
+  label: string;
+  search: (query: string, options?: SearchOptions) => Promise<SearchResponse>;
+  searchStream?: (query: string, onUpdate: SearchStreamHandler, options?: SearchOptions) => Promise<SearchResponse>;
+  searchVertical?: <V extends ResultVertical>(vertical: V, query: string, options?: SearchOptions) => Promise<VerticalResultMap[V][]>;
+  // Fills the existing comparison rows for one more item; null when nothing usable was found
+  searchComparisonItem?: (item: string, data: ComparisonData, options?: SearchOptions) => Promise<ComparisonItemPayload | null>;
+  // Concepts around one graph node, with that node as the subgraph's main node; null when nothing was found
+  searchSubgraph?: (label: string, graph: GraphData, options?: SearchOptions) => Promise<GraphData | null>;
+}
+
+const STORAGE_KEY = 'alexis_search_provider';
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, SearchProvider>();
+let activeProviderId: string | null = null;
+
+export const registerSearchProvider = (provider: SearchProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const listSearchProviders = (): SearchProvider[] => Array.from(providers.values());
+
+// Resolution order: explicit selection > ?searchProvider= URL param > saved choice > default
+const resolveInitialProviderId = (): string => {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get('searchProvider');
+    if (fromUrl && providers.has(fromUrl)) return fromUrl;
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && providers.has(saved)) return saved;
+  } catch (e) {
+    // Storage or location unavailable (e.g. sandboxed iframe)
+  }
+  return DEFAULT_PROVIDER_ID;
+};
+
+export const getActiveSearchProviderId = (): string => {
+  if (!activeProviderId || !providers.has(activeProviderId)) {
+    activeProviderId = resolveInitialProviderId();
+  }
+  return activeProviderId;
+};
+
+export const getActiveSearchProvider = (): SearchProvider => {
+  const provider = providers.get(getActiveSearchProviderId()) || providers.get(DEFAULT_PROVIDER_ID);
+  if (!provider) {
+    throw new Error("No search provider registered");
+  }
+  return provider;
+};
+
+export const setActiveSearchProvider = (id: string): void => {
+  if (!providers.has(id)) {
+    console.error(`Unknown search provider: ${id}`);
+    return;
+  }
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (e) {
+    // Selection still applies for this session
+  }
+};
@@ -0,0 +1,816 @@
+import { Schema, Type } from "@google/genai";
+import { BuiltinWidgetType, Citation, ComparisonData, GraphData, SearchResponse, SearchResult, SmartWidgetData, TimelineEvent, StatItem, GraphNode, GraphLink, ResultVertical, VerticalResultMap, ChartSeries, MapLocation, WeatherDay } from "../types";
+import { debugLog } from "./debugChannel";
+import { getWidgetPlugin, WidgetPlugin, WidgetValidator } from "./widgetRegistry";
+// Registers the built-in widgets that validateWidget looks up
+import "./builtinWidgets";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+const DEBUG_CHANNEL = 'search.validation';
+const MISSING_VALUE = '—';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts strings and numbers (models often emit years/prices as numbers)
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+};
+
+// Accepts numbers and numeric strings such as "1,234", "$12.5" or "45%"
+const asNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseFloat(value.replace(/[^0-9.\-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const asArray = (value: unknown, path: string, issues: ValidationIssue[]): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (value !== undefined) issues.push({ path, message: 'Expected an array' });
+  return [];
+};
+
+// --- JSON extraction ---
+
+/**
+ * Finds the JSON payload in a model response. Handles ```json fences with or
+ * without a newline, unlabelled fences, unterminated fences and prose around the block.
+ */
+export const extractJsonBlock = (rawText: string): string | null => {
+  const labelled = rawText.match(/```json\s*([\s\S]*?)```/i);
+  if (labelled) return labelled[1].trim();
+
+  const unterminated = rawText.match(/```json\s*([\s\S]*)$/i);
+  if (unterminated) return unterminated[1].trim();
+
+  const anyFence = rawText.match(/```\s*(\{[\s\S]*?\})\s*```/);
+  if (anyFence) return anyFence[1].trim();
+
+  const start = rawText.indexOf('{');
+  const end = rawText.lastIndexOf('}');
+  if (start !== -1 && end > start) return rawText.slice(start, end + 1);
+
+  return null;
+};
+
+export const stripJsonBlock = (rawText: string): string =>
+  rawText.replace(/```json[\s\S]*?(```|$)/i, '').trim();
+
+const parseJsonLenient = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    // Trailing commas are the most common defect in model-written JSON
+    return JSON.parse(json.replace(/,\s*([}\]])/g, '$1'));
+  }
+};
+
+const asHttpUrl = (value: unknown): string | undefined => {
+  const url = asString(value);
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? url : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// --- Organic results ---
+
+export const validateSearchResult = (value: unknown, path: string, issues: ValidationIssue[]): SearchResult | null => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Dropped result: not an object' });
+    return null;
+  }
+
+  const url = asString(value.url);
+  let hostname: string;
+  try {
+    const parsed = new URL(url || '');
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error('Unsupported protocol');
+    hostname = parsed.hostname;
+  } catch (e) {
+    issues.push({ path: `${path}.url`, message: `Dropped result: invalid url "${url ?? ''}"` });
+    return null;
+  }
+
+  const title = asString(value.title);
+  if (!title) issues.push({ path: `${path}.title`, message: 'Missing title, using hostname' });
+
+  return {
+    title: title || hostname,
+    url: url!,
+    siteName: asString(value.siteName) || hostname,
+    snippet: asString(value.snippet),
+    date: asString(value.date),
+  };
+};
+
+const validateSources = (value: unknown, path: string, issues: ValidationIssue[]): SearchResult[] =>
+  asArray(value, path, issues)
+    .map((item, i) => validateSearchResult(item, `${path}[${i}]`, issues))
+    .filter((s): s is SearchResult => s !== null);
+
+// --- Vertical results ---
+
+type VerticalValidator<T> = (item: Record<string, unknown>, base: SearchResult, path: string, issues: ValidationIssue[]) => T | null;
+
+const VERTICAL_VALIDATORS: { [K in ResultVertical]: VerticalValidator<VerticalResultMap[K]> } = {
+  news: (item, base, path, issues) => {
+    const publishedAt = asString(item.publishedAt) ?? base.date;
+    if (!publishedAt) {
+      issues.push({ path: `${path}.publishedAt`, message: 'Dropped article: missing date' });
+      return null;
+    }
+    return { ...base, publisher: asString(item.publisher) ?? base.siteName ?? '', publishedAt };
+  },
+  images: (item, base, path, issues) => {
+    const sourcePageUrl = asHttpUrl(item.sourcePageUrl);
+    if (!sourcePageUrl) {
+      issues.push({ path: `${path}.sourcePageUrl`, message: 'Dropped image: invalid source page' });
+      return null;
+    }
+    return { ...base, thumbnailUrl: asHttpUrl(item.thumbnailUrl) ?? base.url, sourcePageUrl };
+  },
+  videos: (item, base, path, issues) => {
+    const duration = asString(item.duration) ?? '';
+    if (duration && !/^\d{1,2}(:\d{2}){1,2}$/.test(duration)) {
+      issues.push({ path: `${path}.duration`, message: `Unrecognized duration "${duration}"` });
+    }
+    return { ...base, channel: asString(item.channel) ?? base.siteName ?? '', duration, thumbnailUrl: asHttpUrl(item.thumbnailUrl) };
+  },
+  shopping: (item, base, path, issues) => {
+    const price = asString(item.price);
+    if (!price) {
+      issues.push({ path: `${path}.price`, message: 'Dropped product: missing price' });
+      return null;
+    }
+    const rating = typeof item.rating === 'number' && Number.isFinite(item.rating)
+      ? Math.min(5, Math.max(0, item.rating))
+      : undefined;
+    return { ...base, price, merchant: asString(item.merchant) ?? base.siteName ?? '', imageUrl: asHttpUrl(item.imageUrl), rating };
+  },
+};
+
+/** Accepts either `{ results: [...] }` or a bare array and returns the usable items. */
+export const validateVerticalResults = <V extends ResultVertical>(vertical: V, value: unknown, context = `${vertical} results`): VerticalResultMap[V][] => {
+  const issues: ValidationIssue[] = [];
+  const items = asArray(isRecord(value) ? value.results : value, 'results', issues);
+  const validator = VERTICAL_VALIDATORS[vertical] as VerticalValidator<VerticalResultMap[V]>;
+
+  const results = items
+    .map((item, i) => {
+      const path = `results[${i}]`;
+      const base = validateSearchResult(item, path, issues);
+      return base ? validator(item as Record<string, unknown>, base, path, issues) : null;
+    })
+    .filter((r): r is VerticalResultMap[V] => r !== null);
+
+  reportIssues(context, issues);
+  return results;
+};
+
+/** Parses a vertical search response: a JSON block holding `{ results: [...] }`. */
+export const parseVerticalPayload = <V extends ResultVertical>(vertical: V, rawText: string): VerticalResultMap[V][] => {
+  const json = extractJsonBlock(rawText);
+  if (!json) {
+    debugLog(DEBUG_CHANNEL, `No JSON block in ${vertical} response`);
+    return [];
+  }
+  try {
+    return validateVerticalResults(vertical, parseJsonLenient(json));
+  } catch (e) {
+    debugLog(DEBUG_CHANNEL, `Failed to parse ${vertical} JSON`, { error: String(e), json });
+    return [];
+  }
+};
+
+// --- Widget payloads ---
+
+const validateComparison: WidgetValidator = (widget, path, issues) => {
+  const data = widget.comparisonData;
+  if (!isRecord(data)) {
+    issues.push({ path: `${path}.comparisonData`, message: 'Missing comparisonData' });
+    return null;
+  }
+
+  const rows = asArray(data.rows, `${path}.comparisonData.rows`, issues)
+    .map((row, i) => {
+      const rowPath = `${path}.comparisonData.rows[${i}]`;
+      if (!isRecord(row)) {
+        issues.push({ path: rowPath, message: 'Dropped row: not an object' });
+        return null;
+      }
+      const feature = asString(row.feature);
+      if (!feature) {
+        issues.push({ path: `${rowPath}.feature`, message: 'Dropped row: missing feature' });
+        return null;
+      }
+      const values = asArray(row.values, `${rowPath}.values`, issues).map(v => asString(v) ?? MISSING_VALUE);
+      return { feature, values };
+    })
+    .filter((r): r is { feature: string; values: string[] } => r !== null);
+
+  if (rows.length === 0) {
+    issues.push({ path: `${path}.comparisonData.rows`, message: 'No usable rows' });
+    return null;
+  }
+
+  let headers = asArray(data.headers, `${path}.comparisonData.headers`, issues).map((h, i) => asString(h) ?? `Item ${i}`);
+  if (headers.length < 2) {
+    const itemCount = Math.max(...rows.map(r => r.values.length), 1);
+    issues.push({ path: `${path}.comparisonData.headers`, message: 'Missing headers, generated placeholders' });
+    headers = ['Feature', ...Array.from({ length: itemCount }, (_, i) => `Item ${i + 1}`)];
+  }
+
+  // Every row must have exactly one value per item column
+  const itemCount = headers.length - 1;
+  rows.forEach((row, i) => {
+    if (row.values.length !== itemCount) {
+      issues.push({ path: `${path}.comparisonData.rows[${i}].values`, message: `Expected ${itemCount} values, got ${row.values.length}` });
+      row.values = row.values.length > itemCount
+        ? row.values.slice(0, itemCount)
+        : [...row.values, ...Array(itemCount - row.values.length).fill(MISSING_VALUE)];
+    }
+  });
+
+  return { comparisonData: { headers, rows } };
+};
+
+const validateTimeline: WidgetValidator = (widget, path, issues) => {
+  const events = asArray(widget.timelineData, `${path}.timelineData`, issues)
+    .map((event, i): TimelineEvent | null => {
+      const eventPath = `${path}.timelineData[${i}]`;
+      if (!isRecord(event)) {
+        issues.push({ path: eventPath, message: 'Dropped event: not an object' });
+        return null;
+      }
+      const year = asString(event.year);
+      const title = asString(event.title);
+      if (!year || !title) {
+        issues.push({ path: eventPath, message: 'Dropped event: missing year or title' });
+        return null;
+      }
+      return { year, title, description: asString(event.description) ?? '' };
+    })
+    .filter((e): e is TimelineEvent => e !== null);
+
+  return events.length > 0 ? { timelineData: events } : null;
+};
+
+const TRENDS: StatItem['trend'][] = ['up', 'down', 'neutral'];
+
+const validateStats: WidgetValidator = (widget, path, issues) => {
+  const stats = asArray(widget.statsData, `${path}.statsData`, issues)
+    .map((stat, i): StatItem | null => {
+      const statPath = `${path}.statsData[${i}]`;
+      if (!isRecord(stat)) {
+        issues.push({ path: statPath, message: 'Dropped stat: not an object' });
+        return null;
+      }
+      const label = asString(stat.label);
+      const value = asString(stat.value);
+      if (!label || !value) {
+        issues.push({ path: statPath, message: 'Dropped stat: missing label or value' });
+        return null;
+      }
+      const trend = asString(stat.trend)?.toLowerCase() as StatItem['trend'];
+      if (trend && !TRENDS.includes(trend)) {
+        issues.push({ path: `${statPath}.trend`, message: `Unknown trend "${trend}"` });
+      }
+      return { label, value, trend: trend && TRENDS.includes(trend) ? trend : undefined };
+    })
+    .filter((s): s is StatItem => s !== null);
+
+  return stats.length > 0 ? { statsData: stats } : null;
+};
+
+const validateGraph: WidgetValidator = (widget, path, issues) => {
+  const data = widget.graphData;
+  if (!isRecord(data)) {
+    issues.push({ path: `${path}.graphData`, message: 'Missing graphData' });
+    return null;
+  }
+
+  const seen = new Set<string>();
+  const nodes = asArray(data.nodes, `${path}.graphData.nodes`, issues)
+    .map((node, i): GraphNode | null => {
+      const nodePath = `${path}.graphData.nodes[${i}]`;
+      if (!isRecord(node)) {
+        issues.push({ path: nodePath, message: 'Dropped node: not an object' });
+        return null;
+      }
+      const id = asString(node.id) ?? asString(node.label);
+      if (!id || seen.has(id)) {
+        issues.push({ path: nodePath, message: id ? `Dropped duplicate node "${id}"` : 'Dropped node: missing id' });
+        return null;
+      }
+      seen.add(id);
+      return { id, label: asString(node.label) ?? id, type: node.type === 'main' ? 'main' : 'sub' };
+    })
+    .filter((n): n is GraphNode => n !== null);
+
+  if (nodes.length === 0) {
+    issues.push({ path: `${path}.graphData.nodes`, message: 'No usable nodes' });
+    return null;
+  }
+  if (!nodes.some(n => n.type === 'main')) {
+    nodes[0].type = 'main';
+  }
+
+  const links = asArray(data.links, `${path}.graphData.links`, issues)
+    .map((link, i): GraphLink | null => {
+      const source = isRecord(link) ? asString(link.source) : undefined;
+      const target = isRecord(link) ? asString(link.target) : undefined;
+      if (!source || !target || !seen.has(source) || !seen.has(target) || source === target) {
+        issues.push({ path: `${path}.graphData.links[${i}]`, message: 'Dropped link: unknown or missing endpoint' });
+        return null;
+      }
+      return { source, target, label: asString((link as Record<string, unknown>).label) };
+    })
+    .filter((l): l is GraphLink => l !== null);
+
+  return { graphData: { nodes, links } };
+};
+
+const asStringList = (value: unknown, path: string, issues: ValidationIssue[]): string[] =>
+  asArray(value, path, issues).map(asString).filter((v): v is string => v !== undefined);
+
+const validateChart: WidgetValidator = (widget, path, issues) => {
+  const data = widget.chartData;
+  if (!isRecord(data)) {
+    issues.push({ path: `${path}.chartData`, message: 'Missing chartData' });
+    return null;
+  }
+
+  let labels = asStringList(data.labels, `${path}.chartData.labels`, issues);
+  const series = asArray(data.series, `${path}.chartData.series`, issues)
+    .map((item, i): ChartSeries | null => {
+      const seriesPath = `${path}.chartData.series[${i}]`;
+      if (!isRecord(item)) {
+        issues.push({ path: seriesPath, message: 'Dropped series: not an object' });
+        return null;
+      }
+      const values = asArray(item.values, `${seriesPath}.values`, issues).map(asNumber);
+      if (values.length === 0 || values.some(v => v === undefined)) {
+        issues.push({ path: `${seriesPath}.values`, message: 'Dropped series: missing or non-numeric values' });
+        return null;
+      }
+      return { name: asString(item.name) ?? `Series ${i + 1}`, values: values as number[] };
+    })
+    .filter((s): s is ChartSeries => s !== null);
+
+  if (series.length === 0) {
+    issues.push({ path: `${path}.chartData.series`, message: 'No usable series' });
+    return null;
+  }
+
+  // Trim everything to the shortest of labels and series so points line up
+  const length = Math.min(...series.map(s => s.values.length), labels.length || Infinity);
+  if (labels.length === 0) {
+    issues.push({ path: `${path}.chartData.labels`, message: 'Missing labels, generated placeholders' });
+    labels = Array.from({ length }, (_, i) => String(i + 1));
+  }
+  if (series.some(s => s.values.length !== length) || labels.length !== length) {
+    issues.push({ path: `${path}.chartData`, message: `Trimmed labels and series to ${length} points` });
+  }
+
+  return {
+    chartData: {
+      kind: data.kind === 'bar' ? 'bar' : 'line',
+      labels: labels.slice(0, length),
+      series: series.map(s => ({ ...s, values: s.values.slice(0, length) })),
+      unit: asString(data.unit),
+    },
+  };
+};
+
+const validateMap: WidgetValidator = (widget, path, issues) => {
+  const locations = asArray(widget.mapData, `${path}.mapData`, issues)
+    .map((location, i): MapLocation | null => {
+      const locationPath = `${path}.mapData[${i}]`;
+      const name = isRecord(location) ? asString(location.name) : undefined;
+      const lat = isRecord(location) ? asNumber(location.lat) : undefined;
+      const lng = isRecord(location) ? asNumber(location.lng ?? location.lon) : undefined;
+      if (!name || lat === undefined || lng === undefined || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        issues.push({ path: locationPath, message: 'Dropped location: missing name or invalid coordinates' });
+        return null;
+      }
+      return { name, lat, lng, description: asString((location as Record<string, unknown>).description) };
+    })
+    .filter((l): l is MapLocation => l !== null);
+
+  return locations.length > 0 ? { mapData: locations } : null;
+};
+
+const validateRecipe: WidgetValidator = (widget, path, issues) => {
+  const data = widget.recipeData;
+  if (!isRecord(data)) {
+    issues.push({ path: `${path}.recipeData`, message: 'Missing recipeData' });
+    return null;
+  }
+
+  const ingredients = asStringList(data.ingredients, `${path}.recipeData.ingredients`, issues);
+  const steps = asStringList(data.steps, `${path}.recipeData.steps`, issues);
+  if (ingredients.length === 0 || steps.length === 0) {
+    issues.push({ path: `${path}.recipeData`, message: 'Recipe needs ingredients and steps' });
+    return null;
+  }
+
+  return {
+    recipeData: {
+      servings: asString(data.servings),
+      prepTime: asString(data.prepTime),
+      cookTime: asString(data.cookTime),
+      ingredients,
+      steps,
+    },
+  };
+};
+
+const validateWeather: WidgetValidator = (widget, path, issues) => {
+  const data = widget.weatherData;
+  if (!isRecord(data)) {
+    issues.push({ path: `${path}.weatherData`, message: 'Missing weatherData' });
+    return null;
+  }
+
+  const forecast = asArray(data.forecast, `${path}.weatherData.forecast`, issues)
+    .map((day, i): WeatherDay | null => {
+      const dayPath = `${path}.weatherData.forecast[${i}]`;
+      if (!isRecord(day)) {
+        issues.push({ path: dayPath, message: 'Dropped day: not an object' });
+        return null;
+      }
+      const label = asString(day.day);
+      const high = asNumber(day.high);
+      const low = asNumber(day.low);
+      if (!label || high === undefined || low === undefined) {
+        issues.push({ path: dayPath, message: 'Dropped day: missing day, high or low' });
+        return null;
+      }
+      const precipitation = asNumber(day.precipitation);
+      return {
+        day: label,
+        condition: asString(day.condition) ?? '',
+        high: Math.max(high, low),
+        low: Math.min(high, low),
+        precipitation: precipitation === undefined ? undefined : Math.min(100, Math.max(0, precipitation)),
+      };
+    })
+    .filter((d): d is WeatherDay => d !== null);
+
+  const current = isRecord(data.current) ? data.current : undefined;
+  const temperature = asNumber(current?.temperature);
+  if (forecast.length === 0 && temperature === undefined) {
+    issues.push({ path: `${path}.weatherData`, message: 'No current conditions or forecast' });
+    return null;
+  }
+
+  return {
+    weatherData: {
+      location: asString(data.location) ?? '',
+      unit: asString(data.unit)?.toUpperCase().startsWith('F') ? 'F' : 'C',
+      current: current && temperature !== undefined
+        ? { temperature, condition: asString(current.condition) ?? '', humidity: asNumber(current.humidity), wind: asString(current.wind) }
+        : undefined,
+      forecast,
+    },
+  };
+};
+
+const validateCode: WidgetValidator = (widget, path, issues) => {
+  const data = widget.codeData;
+  // Keep indentation: only reject code that is entirely whitespace
+  const code = isRecord(data) && typeof data.code === 'string' && data.code.trim() ? data.code.replace(/^\n+|\s+$/g, '') : undefined;
+  if (!isRecord(data) || !code) {
+    issues.push({ path: `${path}.codeData`, message: 'Missing code' });
+    return null;
+  }
+  return { codeData: { language: asString(data.language)?.toLowerCase() ?? 'text', code, filename: asString(data.filename) } };
+};
+
+const validateTable: WidgetValidator = (widget, path, issues) => {
+  const data = widget.tableData;
+  if (!isRecord(data)) {
+    issues.push({ path: `${path}.tableData`, message: 'Missing tableData' });
+    return null;
+  }
+
+  const rows = asArray(data.rows, `${path}.tableData.rows`, issues)
+    .filter((row, i) => {
+      if (Array.isArray(row)) return true;
+      issues.push({ path: `${path}.tableData.rows[${i}]`, message: 'Dropped row: not an array' });
+      return false;
+    })
+    .map(row => (row as unknown[]).map(cell => asString(cell) ?? MISSING_VALUE));
+
+  if (rows.length === 0) {
+    issues.push({ path: `${path}.tableData.rows`, message: 'No usable rows' });
+    return null;
+  }
+
+  const width = Math.max(...rows.map(r => r.length));
+  let columns = asStringList(data.columns, `${path}.tableData.columns`, issues);
+  if (columns.length === 0) {
+    issues.push({ path: `${path}.tableData.columns`, message: 'Missing columns, generated placeholders' });
+    columns = Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  }
+
+  // Same repair as comparison rows: exactly one cell per column
+  const normalized = rows.map((row, i) => {
+    if (row.length === columns.length) return row;
+    issues.push({ path: `${path}.tableData.rows[${i}]`, message: `Expected ${columns.length} cells, got ${row.length}` });
+    return row.length > columns.length
+      ? row.slice(0, columns.length)
+      : [...row, ...Array(columns.length - row.length).fill(MISSING_VALUE)];
+  });
+
+  return { tableData: { columns, rows: normalized } };
+};
+
+export const BUILTIN_WIDGET_VALIDATORS: Record<BuiltinWidgetType, WidgetValidator> = {
+  comparison: validateComparison,
+  timeline: validateTimeline,
+  stats: validateStats,
+  graph: validateGraph,
+  chart: validateChart,
+  map: validateMap,
+  recipe: validateRecipe,
+  weather: validateWeather,
+  code: validateCode,
+  table: validateTable,
+};
+
+/**
+ * Checks a value against a widget schema: coerces scalars where the model is close
+ * (numeric strings, numbers as strings), drops array items that don't fit and
+ * fields the schema doesn't declare. Returns undefined when a required part is unusable.
+ */
+export const validateWithSchema = (value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isRecord(value)) {
+        issues.push({ path, message: 'Expected an object' });
+        return undefined;
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (value[key] === undefined || value[key] === null) {
+          if (schema.required?.includes(key)) {
+            issues.push({ path: `${path}.${key}`, message: 'Missing required field' });
+            return undefined;
+          }
+          continue;
+        }
+        const property = validateWithSchema(value[key], propertySchema, `${path}.${key}`, issues);
+        if (property === undefined && schema.required?.includes(key)) return undefined;
+        if (property !== undefined) result[key] = property;
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'Expected an array' });
+        return undefined;
+      }
+      const items = value
+        .map((item, i) => schema.items ? validateWithSchema(item, schema.items, `${path}[${i}]`, issues) : item)
+        .filter(item => item !== undefined);
+      // Nothing usable left is treated like a missing field
+      return items.length === 0 && value.length > 0 ? undefined : items;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const number = asNumber(value);
+      if (number === undefined) issues.push({ path, message: 'Expected a number' });
+      return number !== undefined && schema.type === Type.INTEGER ? Math.round(number) : number;
+    }
+    case Type.BOOLEAN:
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      issues.push({ path, message: 'Expected a boolean' });
+      return undefined;
+    case Type.STRING: {
+      const text = asString(value);
+      if (text === undefined) {
+        issues.push({ path, message: 'Expected a string' });
+        return undefined;
+      }
+      if (schema.enum && !schema.enum.includes(text)) {
+        issues.push({ path, message: `Unknown value "${text}"` });
+        return undefined;
+      }
+      return text;
+    }
+    default:
+      return value;
+  }
+};
+
+// Plugins without hand-written repairs are checked against their schema
+const validatePluginPayload = (plugin: WidgetPlugin<unknown>, widget: Record<string, unknown>, path: string, issues: ValidationIssue[]): Partial<SmartWidgetData> | null => {
+  if (plugin.validate) return plugin.validate(widget, path, issues);
+  const payload = validateWithSchema(widget[plugin.dataKey], plugin.schema, `${path}.${plugin.dataKey}`, issues);
+  return payload === undefined ? null : { [plugin.dataKey]: payload };
+};
+
+/**
+ * Normalizes a widget payload. Repairs what it can (padding comparison rows,
+ * dropping dangling graph links) and returns undefined when nothing renderable is left.
+ * Only types in the widget registry are accepted.
+ */
+export const validateWidget = (value: unknown, issues: ValidationIssue[], path = 'widget'): SmartWidgetData | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Dropped widget: not an object' });
+    return undefined;
+  }
+
+  const type = asString(value.type)?.toLowerCase();
+  if (!type || type === 'none') return undefined;
+
+  const plugin = getWidgetPlugin(type);
+  if (!plugin) {
+    issues.push({ path: `${path}.type`, message: `Dropped widget: unknown type "${type}"` });
+    return undefined;
+  }
+
+  const payload = validatePluginPayload(plugin, value, path, issues);
+  if (!payload) {
+    issues.push({ path, message: `Dropped ${type} widget: payload unusable` });
+    return undefined;
+  }
+
+  return { type, title: asString(value.title), ...payload };
+};
+
+// --- Comparison items ---
+
+export interface ComparisonItemPayload {
+  item: string;
+  values: string[];
+}
+
+/** Parses `{ item, values }` for a new comparison column, padded or trimmed to one value per row. */
+export const parseComparisonItemPayload = (rawText: string, data: ComparisonData, requestedItem: string): ComparisonItemPayload | null => {
+  const json = extractJsonBlock(rawText);
+  if (!json) {
+    debugLog(DEBUG_CHANNEL, 'No JSON block in comparison item response');
+    return null;
+  }
+
+  const issues: ValidationIssue[] = [];
+  let value: unknown;
+  try {
+    value = parseJsonLenient(json);
+  } catch (e) {
+    debugLog(DEBUG_CHANNEL, 'Failed to parse comparison item JSON', { error: String(e), json });
+    return null;
+  }
+
+  const record = isRecord(value) ? value : {};
+  const values = asArray(record.values, 'values', issues).map(v => asString(v) ?? MISSING_VALUE);
+  const rowCount = data.rows.length;
+  if (values.length !== rowCount) {
+    issues.push({ path: 'values', message: `Expected ${rowCount} values, got ${values.length}` });
+  }
+  reportIssues('comparison item', issues);
+
+  if (values.length === 0 || values.every(v => v === MISSING_VALUE)) return null;
+  return {
+    item: asString(record.item) ?? requestedItem,
+    values: values.length > rowCount
+      ? values.slice(0, rowCount)
+      : [...values, ...Array(rowCount - values.length).fill(MISSING_VALUE)],
+  };
+};
+
+// --- Graph drill-down ---
+
+/** Parses a node's subgraph, in the same `{ nodes, links }` shape as the graph widget. */
+export const parseSubgraphPayload = (rawText: string): GraphData | null => {
+  const json = extractJsonBlock(rawText);
+  if (!json) {
+    debugLog(DEBUG_CHANNEL, 'No JSON block in subgraph response');
+    return null;
+  }
+
+  let value: unknown;
+  try {
+    value = parseJsonLenient(json);
+  } catch (e) {
+    debugLog(DEBUG_CHANNEL, 'Failed to parse subgraph JSON', { error: String(e), json });
+    return null;
+  }
+
+  const issues: ValidationIssue[] = [];
+  // Accept the bare graph or one still wrapped the way the widget contract wraps it
+  const graphData = isRecord(value) && isRecord(value.graphData) ? value.graphData : value;
+  const payload = validateGraph({ graphData }, 'subgraph', issues);
+  reportIssues('subgraph', issues);
+
+  const graph = payload?.graphData;
+  return graph && graph.nodes.length > 1 ? graph : null;
+};
+
+// --- Top-level contracts ---
+
+const reportIssues = (context: string, issues: ValidationIssue[]) => {
+  if (issues.length > 0) {
+    debugLog(DEBUG_CHANNEL, `${context}: ${issues.length} issue(s)`, issues);
+  }
+};
+
+interface ParseOptions {
+  // The streaming contract writes the overview as Markdown outside the JSON block
+  expectOverview?: boolean;
+}
+
+/**
+ * Parses the model's `{ aiOverview, organicResults, widget }` JSON block.
+ * Returns null when no parseable JSON is present.
+ */
+export const parseSearchPayload = (rawText: string, { expectOverview = true }: ParseOptions = {}): SearchResponse | null => {
+  const json = extractJsonBlock(rawText);
+  if (!json) {
+    debugLog(DEBUG_CHANNEL, 'No JSON block in model response');
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = parseJsonLenient(json);
+  } catch (e) {
+    debugLog(DEBUG_CHANNEL, 'Failed to parse search JSON', { error: String(e), json });
+    return null;
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(data)) {
+    issues.push({ path: '$', message: 'Expected a JSON object' });
+    reportIssues('Search payload', issues);
+    return null;
+  }
+
+  const text = asString(data.aiOverview);
+  if (!text && expectOverview) issues.push({ path: 'aiOverview', message: 'Missing overview' });
+
+  const response: SearchResponse = {
+    text: text ?? '',
+    sources: validateSources(data.organicResults, 'organicResults', issues),
+    widget: validateWidget(data.widget, issues),
+  };
+  reportIssues('Search payload', issues);
+  return response;
+};
+
+// Citations may only point at sources that survived validation
+const validateCitations = (value: unknown, sources: SearchResult[], issues: ValidationIssue[]): Citation[] | undefined => {
+  if (value === undefined) return undefined;
+  const known = new Set(sources.map(s => s.url));
+  return asArray(value, 'citations', issues)
+    .map((citation, i): Citation | null => {
+      const text = isRecord(citation) ? asString(citation.text) : undefined;
+      const sourceUrls = isRecord(citation)
+        ? asArray(citation.sourceUrls, `citations[${i}].sourceUrls`, issues).filter((url): url is string => typeof url === 'string' && known.has(url))
+        : [];
+      if (!text || sourceUrls.length === 0) {
+        issues.push({ path: `citations[${i}]`, message: 'Dropped citation: no text or no known sources' });
+        return null;
+      }
+      return { text, sourceUrls };
+    })
+    .filter((c): c is Citation => c !== null);
+};
+
+/** Normalizes a provider response before it reaches the UI. */
+export const validateSearchResponse = (value: unknown, context = 'Search response'): SearchResponse => {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(value)) {
+    issues.push({ path: '$', message: 'Expected an object' });
+    reportIssues(context, issues);
+    return { text: '', sources: [] };
+  }
+
+  const sources = validateSources(value.sources, 'sources', issues);
+  const response: SearchResponse = {
+    text: typeof value.text === 'string' ? value.text : '',
+    sources,
+    widget: validateWidget(value.widget, issues),
+    citations: validateCitations(value.citations, sources, issues),
+  };
+  reportIssues(context, issues);
+  return response;
+};
@@ -0,0 +1,89 @@
+import { ResultVertical, SearchVertical } from "../types";
+
+export interface VerticalContract {
+  label: string;
+  // Describes the `results` array the model must return for this vertical
+  prompt: string;
+}
+
+export const SEARCH_VERTICALS: { id: SearchVertical; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'news', label: 'News' },
+  { id: 'images', label: 'Images' },
+  { id: 'videos', label: 'Videos' },
+  { id: 'shopping', label: 'Shopping' },
+];
+
+export const VERTICAL_CONTRACTS: Record<ResultVertical, VerticalContract> = {
+  news: {
+    label: 'News',
+    prompt: `
+    Find recent news articles about the query, newest first. Return at least 8.
+    Each item:
+        {
+          "title": "Headline",
+          "url": "https://publisher.com/article",
+          "publisher": "Publisher Name",
+          "publishedAt": "2024-10-03" (ISO date),
+          "snippet": "One sentence summary."
+        }`,
+  },
+  images: {
+    label: 'Images',
+    prompt: `
+    Find images relevant to the query on real web pages. Return at least 12.
+    Each item:
+        {
+          "title": "Short caption",
+          "url": "https://site.com/full-image.jpg" (direct image file),
+          "thumbnailUrl": "https://site.com/thumb.jpg" (direct image file, may equal url),
+          "sourcePageUrl": "https://site.com/page-showing-the-image",
+          "siteName": "site.com"
+        }`,
+  },
+  videos: {
+    label: 'Videos',
+    prompt: `
+    Find videos about the query (YouTube, Vimeo, news sites). Return at least 8.
+    Each item:
+        {
+          "title": "Video title",
+          "url": "https://www.youtube.com/watch?v=...",
+          "channel": "Channel Name",
+          "duration": "12:34",
+          "thumbnailUrl": "https://..." (optional),
+          "date": "Mar 2024" (optional),
+          "snippet": "One sentence description."
+        }`,
+  },
+  shopping: {
+    label: 'Shopping',
+    prompt: `
+    Find product listings for the query from real retailers. Return at least 8.
+    Each item:
+        {
+          "title": "Product name",
+          "url": "https://retailer.com/product",
+          "price": "$799.00" (with currency),
+          "merchant": "Retailer Name",
+          "imageUrl": "https://..." (optional),
+          "rating": 4.5 (optional, 0-5),
+          "snippet": "Key specs or condition."
+        }`,
+  },
+};
+
+export const buildVerticalPrompt = (vertical: ResultVertical): string => `
+    You are a ${VERTICAL_CONTRACTS[vertical].label.toLowerCase()} search engine.
+
+    TASK:
+    Perform a search for the user's query.
+${VERTICAL_CONTRACTS[vertical].prompt}
+
+    OUTPUT FORMAT:
+    Return only a JSON object wrapped in \`\`\`json ... \`\`\`:
+    { "results": [ ...items ] }
+
+    CRITICAL:
+    - Only include URLs you found through search. Never invent URLs.
+    `;
@@ -0,0 +1,94 @@
+import type { ComponentType } from "react";
+import { Schema, Type } from "@google/genai";
+import { GraphData, SmartWidgetData } from "../types";
+import type { ValidationIssue } from "./searchValidation";
+
+/** App hooks a renderer may use. All optional, so widgets also render read-only (e.g. in Companion mode). */
+export interface WidgetHost {
+  // Runs a full search, e.g. for a clicked graph node
+  onSearch?: (query: string) => void;
+  onAddComparisonItem?: (item: string) => Promise<boolean>;
+  onExpandGraphNode?: (label: string, graph: GraphData) => Promise<GraphData | null>;
+}
+
+export interface WidgetRenderProps<T> {
+  title?: string;
+  data: T;
+  // Saves an edited payload with the answer; undefined when the widget can't be edited
+  onChange?: (data: T) => void;
+  host: WidgetHost;
+}
+
+/**
+ * Repairs and normalizes the raw widget object from the model. Returns the fields to
+ * keep (normally just `{ [dataKey]: payload }`), or null when nothing renderable is left.
+ */
+export type WidgetValidator = (widget: Record<string, unknown>, path: string, issues: ValidationIssue[]) => Partial<SmartWidgetData> | null;
+
+export interface WidgetPlugin<T = unknown> {
+  // Value of the widget's "type" field
+  type: string;
+  // Field of SmartWidgetData holding the payload, e.g. "chartData"
+  dataKey: string;
+  label: string;
+  // When the model should pick this widget, e.g. "numeric series over time"
+  description?: string;
+  // Extra instructions printed under the example in the search prompt
+  guidance?: string;
+  // Payload shape, used for validation and by the live render_widget tool
+  schema: Schema;
+  example: T;
+  // Hand-written repairs; without one the payload is checked against `schema`
+  validate?: WidgetValidator;
+  // Left out by the built-ins, whose renderers SmartWidgets registers as fallbacks
+  render?: ComponentType<WidgetRenderProps<T>>;
+}
+
+// Shorthands for writing payload schemas
+export const stringField = (description?: string): Schema => ({ type: Type.STRING, description });
+export const numberField = (description?: string): Schema => ({ type: Type.NUMBER, description });
+export const enumField = (values: string[], description?: string): Schema => ({ type: Type.STRING, enum: values, description });
+export const listOf = (items: Schema, description?: string): Schema => ({ type: Type.ARRAY, items, description });
+export const objectOf = (properties: Record<string, Schema>, required?: string[]): Schema => ({ type: Type.OBJECT, properties, required });
+
+type WidgetRenderer = ComponentType<WidgetRenderProps<unknown>>;
+
+// Insertion order is prompt order
+const plugins = new Map<string, WidgetPlugin>();
+// Renderers for widgets registered without one (the built-ins, rendered by SmartWidgets)
+const fallbackRenderers = new Map<string, WidgetRenderer>();
+
+// The only place a payload type is erased: a renderer is only handed payloads that passed
+// its widget's validation, so the `unknown` it receives is always its T
+const eraseRenderer = <T>(render: ComponentType<WidgetRenderProps<T>>): WidgetRenderer => render as unknown as WidgetRenderer;
+
+/** Registers (or replaces) a widget. Call it when the widget's module loads. */
+export const registerWidget = <T>(plugin: WidgetPlugin<T>): void => {
+  plugins.set(plugin.type, { ...plugin, render: plugin.render && eraseRenderer(plugin.render) });
+};
+
+/** Renderer used for `type` when its plugin doesn't bring its own. */
+export const registerFallbackRenderer = <T>(type: string, render: ComponentType<WidgetRenderProps<T>>): void => {
+  fallbackRenderers.set(type, eraseRenderer(render));
+};
+
+export const getWidgetPlugin = (type: string): WidgetPlugin | undefined => plugins.get(type);
+
+export const listWidgetPlugins = (): WidgetPlugin[] => Array.from(plugins.values());
+
+/** The plugin's own renderer, else the fallback for its type. */
+export const getWidgetRenderer = (type: string): WidgetRenderer | undefined =>
+  plugins.get(type)?.render || fallbackRenderers.get(type);
+
+/** The WIDGET FORMATS section of the search prompt: one example per registered widget. */
+export const describeWidgetFormats = (): string => {
+  const formats = listWidgetPlugins().map(plugin => {
+    const example = JSON.stringify({ type: plugin.type, title: '...', [plugin.dataKey]: plugin.example });
+    const line = `    - ${plugin.label}${plugin.description ? ` (${plugin.description})` : ''}: ${example}`;
+    return plugin.guidance ? `${line}\n      ${plugin.guidance}` : line;
+  });
+
+  return `
+    WIDGET FORMATS (populate "widget" field if applicable):
+${formats.join('\n')}`;
+};
@@ -0,0 +1,34 @@
+import { FunctionDeclaration } from "@google/genai";
+import { SmartWidgetData } from "../types";
+import { ValidationIssue, validateWidget } from "./searchValidation";
+import { enumField, listWidgetPlugins, objectOf, stringField } from "./widgetRegistry";
+
+/**
+ * Lets the live model put a SmartWidget on screen while it talks. Parameters mirror
+ * `SmartWidgetData` and come from the widget registry: `type` picks the widget and
+ * only the matching data field is filled.
+ */
+export const buildRenderWidgetToolDeclaration = (): FunctionDeclaration => {
+  const plugins = listWidgetPlugins();
+  return {
+    name: 'render_widget',
+    description: `Show a visual widget on the user's screen: ${plugins.map(p => p.label.toLowerCase()).join(', ')}. Fill only the data field that matches "type".`,
+    parameters: objectOf({
+      type: enumField(plugins.map(p => p.type)),
+      title: stringField('Short heading shown above the widget'),
+      ...Object.fromEntries(plugins.map(p => [p.dataKey, p.schema])),
+    }, ['type']),
+  };
+};
+
+export interface RenderWidgetResult {
+  widget?: SmartWidgetData;
+  issues: ValidationIssue[];
+}
+
+/** Validates `render_widget` arguments the same way widgets from search responses are validated. */
+export const parseRenderWidgetArgs = (args: unknown): RenderWidgetResult => {
+  const issues: ValidationIssue[] = [];
+  const widget = validateWidget(args, issues, 'render_widget');
+  return { widget, issues };
+};
@@ -4,8 +4,25 @@ export enum AppMode {
   COMPANION = 'COMPANION',
 }
 
+export type CommunicationStyle = 'brief' | 'detailed' | 'casual' | 'professional';
+
 export interface UserPreferences {
-  communicationStyle: 'brief' | 'detailed' | 'casual' | 'professional';
+  communicationStyle: CommunicationStyle;
+  // Prebuilt Gemini Live voice, e.g. 'Kore'
+  voiceName: string;
+  // What the Companion calls itself
+  assistantName: string;
+  // Free-form persona notes added to the Companion's instruction
+  personaNotes: string;
+}
+
+export interface LocaleSettings {
+  // ISO 639-1 language of the interface and of what the user says, e.g. 'en'
+  uiLanguage: string;
+  // ISO 3166 region results should be local to, e.g. 'US'
+  region: string;
+  // Language overviews and spoken answers are given in
+  answerLanguage: string;
 }
 
 export interface UserProfile {
@@ -13,6 +30,7 @@ export interface UserProfile {
   email: string;
   age: string;
   preferences?: UserPreferences;
+  locale?: LocaleSettings;
 }
 
 export interface SearchResult {
@@ -23,16 +41,127 @@ export interface SearchResult {
   date?: string;
 }
 
+// --- Search Verticals ---
+
+export type SearchVertical = 'all' | 'news' | 'images' | 'videos' | 'shopping';
+
+export interface NewsResult extends SearchResult {
+  publisher: string;
+  publishedAt: string;
+}
+
+export interface ImageResult extends SearchResult {
+  // `url` is the full-size image
+  thumbnailUrl: string;
+  sourcePageUrl: string;
+}
+
+export interface VideoResult extends SearchResult {
+  channel: string;
+  duration: string;
+  thumbnailUrl?: string;
+}
+
+export interface ShoppingResult extends SearchResult {
+  price: string;
+  merchant: string;
+  imageUrl?: string;
+  rating?: number; // 0-5
+}
+
+export interface VerticalResultMap {
+  news: NewsResult;
+  images: ImageResult;
+  videos: VideoResult;
+  shopping: ShoppingResult;
+}
+
+export type ResultVertical = keyof VerticalResultMap;
+
+// A span of the overview and the sources that support it
+export interface Citation {
+  text: string;
+  sourceUrls: string[];
+}
+
+export interface SearchResponse {
+  text: string;
+  sources: SearchResult[];
+  widget?: SmartWidgetData;
+  citations?: Citation[];
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   sources?: SearchResult[];
+  widget?: SmartWidgetData;
+  citations?: Citation[];
+}
+
+export interface SearchHistoryEntry {
+  id: string;
+  userId: string;
+  query: string;
+  timestamp: number;
+  text: string;
+  sources: SearchResult[];
+  widget?: SmartWidgetData;
+  // Full follow-up thread, so replaying an entry restores every turn
+  thread: ChatMessage[];
+}
+
+// --- Companion Sessions ---
+
+// Structured scan result shown as the HUD overlay
+export interface HoloData {
+  title: string;
+  category: string;
+  confidence: number;
+  attributes: { label: string; value: string; score?: number }[]; // score 0-100 for progress bars
+  summary: string;
+}
+
+export interface CompanionTurn {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  // Typed turn that was sent with a camera frame
+  hasFrame?: boolean;
+}
+
+export interface CompanionToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  timestamp: number;
+  // One line for lists and exports, e.g. "Searched: best hiking boots"
+  summary: string;
+  error?: string;
+}
+
+export interface CompanionSession {
+  id: string;
+  userId: string;
+  title: string;
+  // Name the assistant had during the session; missing on sessions saved before it could be renamed
+  assistantName?: string;
+  startedAt: number;
+  updatedAt: number;
+  turns: CompanionTurn[];
+  toolCalls: CompanionToolCall[];
+  // Every site suggested during the session, deduplicated by URL
+  suggestedSites: SearchResult[];
 }
 
 // --- Smart Widget Types ---
 
-export type WidgetType = 'comparison' | 'timeline' | 'stats' | 'graph' | 'none';
+export type BuiltinWidgetType = 'comparison' | 'timeline' | 'stats' | 'graph' | 'chart' | 'map' | 'recipe' | 'weather' | 'code' | 'table';
+
+// Widgets registered as plugins (see services/widgetRegistry.ts) add their own type names
+export type WidgetType = BuiltinWidgetType | 'none' | (string & {});
 
 export interface ComparisonItem {
   name: string;
@@ -60,19 +189,90 @@ export interface GraphNode {
 export interface GraphLink {
   source: string;
   target: string;
+  label?: string; // relation, e.g. "invented by"
+}
+
+export interface GraphData {
+  nodes: GraphNode[];
+  links: GraphLink[];
+}
+
+export interface ComparisonData {
+  headers: string[]; // ["Feature", "Item A", "Item B"]
+  rows: { feature: string; values: string[] }[];
+}
+
+export interface ChartSeries {
+  name: string;
+  values: number[]; // one per label
+}
+
+export interface ChartData {
+  kind: 'line' | 'bar';
+  labels: string[]; // x-axis categories, e.g. years
+  series: ChartSeries[];
+  unit?: string; // e.g. "%", "$B"
+}
+
+export interface MapLocation {
+  name: string;
+  lat: number;
+  lng: number;
+  description?: string;
+}
+
+export interface RecipeData {
+  servings?: string;
+  prepTime?: string;
+  cookTime?: string;
+  ingredients: string[]; // "200g flour"
+  steps: string[];
+}
+
+export interface WeatherDay {
+  day: string; // "Mon" or a date
+  condition: string; // "Sunny", "Light rain", ...
+  high: number;
+  low: number;
+  precipitation?: number; // chance, 0-100
+}
+
+export interface WeatherData {
+  location: string;
+  unit: 'C' | 'F';
+  current?: {
+    temperature: number;
+    condition: string;
+    humidity?: number;
+    wind?: string;
+  };
+  forecast: WeatherDay[];
+}
+
+export interface CodeData {
+  language: string;
+  code: string;
+  filename?: string;
+}
+
+export interface TableData {
+  columns: string[];
+  rows: string[][]; // one cell per column
 }
 
 export interface SmartWidgetData {
   type: WidgetType;
   title?: string;
-  comparisonData?: {
-    headers: string[]; // ["Feature", "Item A", "Item B"]
-    rows: { feature: string; values: string[] }[];
-  };
+  comparisonData?: ComparisonData;
   timelineData?: TimelineEvent[];
   statsData?: StatItem[];
-  graphData?: {
-    nodes: GraphNode[];
-    links: GraphLink[];
-  };
+  graphData?: GraphData;
+  chartData?: ChartData;
+  mapData?: MapLocation[];
+  recipeData?: RecipeData;
+  weatherData?: WeatherData;
+  codeData?: CodeData;
+  tableData?: TableData;
+  // Payloads of plugin widgets, each under the plugin's own dataKey
+  [dataKey: string]: unknown;
 }
\ No newline at end of file
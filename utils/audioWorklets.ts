@@ -0,0 +1,252 @@
+import { arrayBufferToBase64, base64ToUint8Array } from './audio-utils';
+
+// Processors run on the audio rendering thread. They are plain JS loaded from a Blob URL,
+// so they work the same in the Vite dev server, production builds and the importmap setup.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    const target = opts.targetSampleRate || 16000;
+    // Input frames per output sample; a context already at or below the target rate passes through
+    this.ratio = Math.max(1, sampleRate / target);
+    this.chunk = new Int16Array(Math.round(target * (opts.chunkMs || 100) / 1000));
+    this.filled = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.position = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      // Average every input frame that falls into one output sample to avoid aliasing
+      this.sum += input[i];
+      this.count++;
+      this.position++;
+      if (this.position < this.ratio) continue;
+      this.position -= this.ratio;
+      const sample = Math.max(-1, Math.min(1, this.sum / this.count));
+      this.sum = 0;
+      this.count = 0;
+      this.chunk[this.filled++] = sample * 32767;
+      if (this.filled === this.chunk.length) {
+        this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+        this.chunk = new Int16Array(this.chunk.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.sourceRate = opts.sourceSampleRate || sampleRate;
+    // Source samples consumed per output frame
+    this.step = this.sourceRate / sampleRate;
+    this.prebuffer = Math.round(this.sourceRate * (opts.prebufferMs || 80) / 1000);
+    this.queue = [];
+    this.queued = 0;
+    this.offset = 0;
+    this.playing = false;
+    this.waited = 0;
+    this.ending = false;
+    this.starved = false;
+    this.underruns = 0;
+    this.starvedFrames = 0;
+    this.currentStarvedFrames = 0;
+    this.port.onmessage = event => {
+      const msg = event.data;
+      if (msg.type === 'push') {
+        const pcm = new Int16Array(msg.pcm);
+        const samples = new Float32Array(pcm.length);
+        for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768;
+        this.queue.push(samples);
+        this.queued += samples.length;
+      } else if (msg.type === 'end') {
+        if (this.queued > 0) {
+          this.ending = true;
+        } else if (this.starved) {
+          // The buffer ran dry because the turn was over, which isn't an underrun after all
+          this.underruns--;
+          this.starvedFrames -= this.currentStarvedFrames;
+          this.starved = false;
+          this.port.postMessage({ type: 'drained', stats: this.stats() });
+        }
+      } else if (msg.type === 'clear') {
+        this.queue = [];
+        this.queued = 0;
+        this.offset = 0;
+        this.playing = false;
+        this.waited = 0;
+        this.ending = false;
+        this.starved = false;
+      }
+    };
+  }
+
+  starve(frames) {
+    this.starvedFrames += frames;
+    this.currentStarvedFrames += frames;
+  }
+
+  stats() {
+    return {
+      underruns: this.underruns,
+      starvedMs: Math.round(this.starvedFrames / sampleRate * 1000),
+      bufferedMs: Math.round((this.queued - this.offset) / this.sourceRate * 1000),
+    };
+  }
+
+  process(inputs, outputs) {
+    const out = outputs[0] && outputs[0][0];
+    if (!out) return true;
+
+    if (!this.playing) {
+      if (this.queued === 0) {
+        if (this.starved) this.starve(out.length);
+        out.fill(0);
+        return true;
+      }
+      // Jitter buffer: wait for a cushion, or until the wait would have covered one anyway
+      // (short last chunks of a turn must still play)
+      this.waited += out.length * this.step;
+      if (this.queued - this.offset < this.prebuffer && this.waited < this.prebuffer && !this.ending) {
+        if (this.starved) this.starve(out.length);
+        out.fill(0);
+        return true;
+      }
+      this.playing = true;
+      this.starved = false;
+      this.waited = 0;
+    }
+
+    for (let i = 0; i < out.length; i++) {
+      const head = this.queue[0];
+      if (!head) {
+        out.fill(0, i);
+        this.playing = false;
+        if (this.ending) {
+          this.ending = false;
+          this.port.postMessage({ type: 'drained', stats: this.stats() });
+        } else {
+          this.underruns++;
+          this.starved = true;
+          this.currentStarvedFrames = 0;
+          this.port.postMessage({ type: 'underrun', stats: this.stats() });
+        }
+        break;
+      }
+      // Linear interpolation covers a context that didn't honour the requested rate
+      const index = Math.floor(this.offset);
+      const frac = this.offset - index;
+      const next = index + 1 < head.length ? head[index + 1] : (this.queue[1] ? this.queue[1][0] : head[index]);
+      out[i] = head[index] + (next - head[index]) * frac;
+      this.offset += this.step;
+      while (this.queue.length && this.offset >= this.queue[0].length) {
+        this.offset -= this.queue[0].length;
+        this.queued -= this.queue[0].length;
+        this.queue.shift();
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+registerProcessor('pcm-playback', PcmPlaybackProcessor);
+`;
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadWorklets = (ctx: BaseAudioContext): Promise<void> => {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    // Let a later call retry after a failed load
+    loading.catch(() => loadedContexts.delete(ctx));
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+};
+
+/**
+ * Mic capture node: resamples to `targetSampleRate` and encodes PCM16 on the audio thread,
+ * then hands `onChunk` a Live API media blob every `chunkMs`. Connect the mic graph into
+ * it, and its output to a muted gain so the browser keeps it running.
+ */
+export const createPcmCapture = async (
+  ctx: AudioContext,
+  onChunk: (blob: { data: string; mimeType: string }) => void,
+  { targetSampleRate = 16000, chunkMs = 100 } = {}
+): Promise<AudioWorkletNode> => {
+  await loadWorklets(ctx);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate, chunkMs },
+  });
+  const mimeType = `audio/pcm;rate=${Math.min(targetSampleRate, ctx.sampleRate)}`;
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onChunk({ data: arrayBufferToBase64(event.data), mimeType });
+  return node;
+};
+
+export interface PlaybackStats {
+  // Times the buffer ran dry mid-turn
+  underruns: number;
+  // Silence played while waiting to refill after underruns
+  starvedMs: number;
+  bufferedMs: number;
+}
+
+export interface PcmPlayer {
+  // Connect this to the analyser/destination
+  node: AudioWorkletNode;
+  // Queues a base64 PCM16 chunk from the model
+  enqueue: (base64: string) => void;
+  // The turn is over: an empty buffer after this is the end of speech, not an underrun
+  endOfStream: () => void;
+  // Drops everything queued (interruption, stop button)
+  clear: () => void;
+  getStats: () => PlaybackStats;
+}
+
+/** Playback through a jitter buffer on the audio thread, so main-thread stalls don't cause gaps. */
+export const createPcmPlayer = async (
+  ctx: AudioContext,
+  { sourceSampleRate = 24000, prebufferMs = 80, onUnderrun }: { sourceSampleRate?: number; prebufferMs?: number; onUnderrun?: (stats: PlaybackStats) => void } = {}
+): Promise<PcmPlayer> => {
+  await loadWorklets(ctx);
+  const node = new AudioWorkletNode(ctx, 'pcm-playback', {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: { sourceSampleRate, prebufferMs },
+  });
+
+  let stats: PlaybackStats = { underruns: 0, starvedMs: 0, bufferedMs: 0 };
+  node.port.onmessage = (event: MessageEvent<{ type: 'underrun' | 'drained'; stats: PlaybackStats }>) => {
+    stats = event.data.stats;
+    if (event.data.type === 'underrun') onUnderrun?.(stats);
+  };
+
+  return {
+    node,
+    enqueue: base64 => {
+      const bytes = base64ToUint8Array(base64);
+      // PCM16 needs an even byte count
+      const pcm = bytes.buffer.slice(0, bytes.byteLength - (bytes.byteLength % 2));
+      node.port.postMessage({ type: 'push', pcm }, [pcm]);
+    },
+    endOfStream: () => node.port.postMessage({ type: 'end' }),
+    clear: () => node.port.postMessage({ type: 'clear' }),
+    getStats: () => stats,
+  };
+};